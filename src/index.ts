@@ -8,6 +8,7 @@ import logger from "./modules/logger";
 
 // Import database
 import { initModels, sequelize } from "mantrify01db";
+import { initApiModels } from "./models";
 
 // Import Express and middleware
 import express, { Request, Response } from "express";
@@ -19,10 +20,14 @@ import mantrasRouter from "./routes/mantras";
 import soundsRouter from "./routes/sounds";
 import adminRouter from "./routes/admin";
 import databaseRouter from "./routes/database";
+import internalRouter from "./routes/internal";
 
 // Import error handlers
 import { errorHandler, notFoundHandler } from "./modules/errorHandler";
 
+// Import queuer circuit breaker state for the health check
+import { getQueuerCircuitStatus } from "./modules/queuerClient";
+
 // Import startup checks
 import { runStartupChecks } from "./modules/onStartUp";
 
@@ -56,18 +61,42 @@ import { runStartupChecks } from "./modules/onStartUp";
 
     // Initialize database and run startup checks
     initModels();
+    initApiModels();
     await runStartupChecks();
 
     // Create Express app
     const app = express();
 
+    // Trust the reverse proxy so req.ip is the client address (rate limits, sessions)
+    if (process.env.TRUST_PROXY) {
+      const trustProxy = process.env.TRUST_PROXY;
+
+      if (trustProxy === "true") {
+        app.set("trust proxy", true);
+      } else if (/^\d+$/.test(trustProxy)) {
+        app.set("trust proxy", parseInt(trustProxy, 10));
+      } else if (trustProxy !== "false") {
+        app.set("trust proxy", trustProxy);
+      }
+    }
+
     // Middleware
     app.use(cors());
+
+    // Internal service callbacks verify signatures over the raw body, so they are registered before JSON parsing
+    app.use("/internal", internalRouter);
+
     app.use(express.json());
 
     // Health check endpoint
     app.get("/health", (req: Request, res: Response) => {
-      res.status(200).json({ status: "ok", service: "Mantrify01API" });
+      const queuer = getQueuerCircuitStatus();
+
+      res.status(200).json({
+        status: queuer.state === "open" ? "degraded" : "ok",
+        service: "Mantrify01API",
+        queuer,
+      });
     });
 
     // Register routers
@@ -0,0 +1,68 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Personal API key used by scripts and integrations instead of a login
+ * Only a SHA-256 hash of the key is stored; the prefix identifies the key in
+ * listings. Scopes are stored as a JSON array of scope names.
+ */
+export class ApiKey extends Model {
+  declare id: number;
+  declare userId: number;
+  declare name: string;
+  declare prefix: string;
+  declare keyHash: string;
+  declare scopes: string;
+  declare lastUsedAt: Date | null;
+  declare revokedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initApiKey = (): void => {
+  ApiKey.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      prefix: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      keyHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      scopes: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+        defaultValue: "[]",
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "ApiKeys",
+      timestamps: true,
+      indexes: [{ fields: ["userId"] }],
+    },
+  );
+};
@@ -0,0 +1,42 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Links a mantra to one of the curated categories
+ */
+export class ContractMantrasCategories extends Model {
+  declare id: number;
+  declare mantraId: number;
+  declare categoryId: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initContractMantrasCategories = (): void => {
+  ContractMantrasCategories.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      categoryId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "ContractMantrasCategories",
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ["mantraId", "categoryId"] },
+        { fields: ["categoryId"] },
+      ],
+    },
+  );
+};
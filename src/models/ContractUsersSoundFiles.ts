@@ -0,0 +1,42 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Records which user uploaded a sound file
+ * Sound files uploaded before uploads were tracked have no row and can only
+ * be managed by users with the sound library permissions.
+ */
+export class ContractUsersSoundFiles extends Model {
+  declare id: number;
+  declare userId: number;
+  declare soundFileId: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initContractUsersSoundFiles = (): void => {
+  ContractUsersSoundFiles.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      soundFileId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "ContractUsersSoundFiles",
+      timestamps: true,
+      indexes: [{ fields: ["userId"] }],
+    },
+  );
+};
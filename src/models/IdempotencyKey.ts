@@ -0,0 +1,67 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Response stored for an Idempotency-Key so client retries are replayed
+ * requestHash fingerprints the endpoint and request body; statusCode is null
+ * while the first request is still being processed. The response body and
+ * replayed headers are stored as JSON.
+ */
+export class IdempotencyKey extends Model {
+  declare id: number;
+  declare userId: number;
+  declare key: string;
+  declare requestHash: string;
+  declare statusCode: number | null;
+  declare responseBody: string | null;
+  declare responseHeaders: string | null;
+  declare expiresAt: Date;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initIdempotencyKey = (): void => {
+  IdempotencyKey.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      key: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      requestHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      statusCode: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      responseBody: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      responseHeaders: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "IdempotencyKeys",
+      timestamps: true,
+      indexes: [{ unique: true, fields: ["userId", "key"] }],
+    },
+  );
+};
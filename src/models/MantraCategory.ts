@@ -0,0 +1,47 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Category of the curated list managed by admins (sleep, focus, ...)
+ * slug identifies the category in requests; name is its display name.
+ * Categories are ordered by sortOrder, then name.
+ */
+export class MantraCategory extends Model {
+  declare id: number;
+  declare slug: string;
+  declare name: string;
+  declare sortOrder: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraCategory = (): void => {
+  MantraCategory.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      slug: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      sortOrder: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraCategories",
+      timestamps: true,
+    },
+  );
+};
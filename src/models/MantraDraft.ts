@@ -0,0 +1,85 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Unsubmitted mantra owned by a user
+ * mantraArray is stored as JSON text. remixedFromMantraId links a remix to the
+ * mantra it was copied from. queueId is the job of the latest submission and
+ * mantraId the mantra that job created. version is incremented by every edit
+ * (optimistic concurrency).
+ */
+export class MantraDraft extends Model {
+  declare id: number;
+  declare userId: number;
+  declare title: string;
+  declare description: string | null;
+  declare visibility: string;
+  declare mantraArray: string;
+  declare remixedFromMantraId: number | null;
+  declare queueId: number | null;
+  declare mantraId: number | null;
+  declare version: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraDraft = (): void => {
+  MantraDraft.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      title: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      visibility: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: "private",
+      },
+      mantraArray: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      remixedFromMantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      queueId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      version: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 1,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraDrafts",
+      timestamps: true,
+      indexes: [
+        { fields: ["userId"] },
+        { fields: ["remixedFromMantraId"] },
+        { fields: ["queueId"] },
+        { fields: ["mantraId"] },
+      ],
+    },
+  );
+};
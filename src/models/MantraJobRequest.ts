@@ -0,0 +1,95 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * The mantraArray submitted for a Queue job, kept so failed jobs can be retried
+ * mantraArray is stored as JSON. retryOfQueueId links a retry to the failed job
+ * it replaces; retriedAt reserves the failed job for a single retry; cancelledAt is set when the owner cancels the job, failedAt and
+ * error when the queuer reports that the job failed, and mantraId once the job
+ * has produced its mantra.
+ * textCharacters and audioSeconds are the job's usage counted against quotas.
+ */
+export class MantraJobRequest extends Model {
+  declare id: number;
+  declare queueId: number;
+  declare userId: number;
+  declare mantraArray: string;
+  declare textCharacters: number;
+  declare audioSeconds: number;
+  declare retryOfQueueId: number | null;
+  declare retriedAt: Date | null;
+  declare cancelledAt: Date | null;
+  declare failedAt: Date | null;
+  declare error: string | null;
+  declare mantraId: number | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraJobRequest = (): void => {
+  MantraJobRequest.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      queueId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      mantraArray: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      textCharacters: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      audioSeconds: {
+        type: DataTypes.FLOAT,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      retryOfQueueId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      retriedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      cancelledAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      failedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraJobRequests",
+      timestamps: true,
+      indexes: [
+        { fields: ["userId", "createdAt"] },
+        { fields: ["retryOfQueueId"] },
+      ],
+    },
+  );
+};
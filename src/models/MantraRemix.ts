@@ -0,0 +1,44 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Attribution of a mantra created from a remix
+ * Written when the job of a remixed draft completes, so the link stays with the
+ * mantra when the draft is resubmitted or deleted.
+ */
+export class MantraRemix extends Model {
+  declare id: number;
+  declare mantraId: number;
+  declare remixedFromMantraId: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraRemix = (): void => {
+  MantraRemix.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      remixedFromMantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraRemixes",
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ["mantraId"] },
+        { fields: ["remixedFromMantraId"] },
+      ],
+    },
+  );
+};
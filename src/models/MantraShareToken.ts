@@ -0,0 +1,58 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Share link token for an unlisted mantra
+ * Only a SHA-256 hash of the token is stored. A mantra has at most one active
+ * token; rotating revokes the previous one. expiresAt is null for links that
+ * do not expire.
+ */
+export class MantraShareToken extends Model {
+  declare id: number;
+  declare mantraId: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare expiresAt: Date | null;
+  declare revokedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraShareToken = (): void => {
+  MantraShareToken.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      tokenHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraShareTokens",
+      timestamps: true,
+      indexes: [{ fields: ["mantraId"] }, { fields: ["userId"] }],
+    },
+  );
+};
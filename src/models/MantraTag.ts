@@ -0,0 +1,43 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Free-form tag attached to a mantra by its owner
+ * Tags are stored normalized (lowercase, words joined by hyphens).
+ */
+export class MantraTag extends Model {
+  declare id: number;
+  declare mantraId: number;
+  declare tag: string;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraTag = (): void => {
+  MantraTag.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      tag: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraTags",
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ["mantraId", "tag"] },
+        { fields: ["tag"] },
+      ],
+    },
+  );
+};
@@ -0,0 +1,74 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Audio version of a mantra
+ * Version 1 is the mantra's original audio, recorded the first time the mantra's
+ * versions are used. Later versions are generated from a new mantraArray
+ * (stored as JSON text) by the job in queueId; filename and filePath are null
+ * until that job completes. pending is true while the job is being submitted
+ * (before queueId is known). The mantra's current version is the one whose file
+ * the Mantras row points to.
+ */
+export class MantraVersion extends Model {
+  declare id: number;
+  declare mantraId: number;
+  declare version: number;
+  declare mantraArray: string | null;
+  declare queueId: number | null;
+  declare filename: string | null;
+  declare filePath: string | null;
+  declare pending: boolean;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initMantraVersion = (): void => {
+  MantraVersion.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      mantraId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      version: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      mantraArray: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      queueId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      filename: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      filePath: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      pending: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "MantraVersions",
+      timestamps: true,
+      indexes: [
+        { unique: true, fields: ["mantraId", "version"] },
+        { fields: ["queueId"] },
+      ],
+    },
+  );
+};
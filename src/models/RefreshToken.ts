@@ -0,0 +1,57 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Server-side record of an issued refresh token
+ * Only a SHA-256 hash of the token is stored. Tokens rotated from the same
+ * login share a sessionId so the whole chain can be revoked at once.
+ */
+export class RefreshToken extends Model {
+  declare id: number;
+  declare userId: number;
+  declare sessionId: number;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare revokedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initRefreshToken = (): void => {
+  RefreshToken.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      sessionId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      tokenHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "RefreshTokens",
+      timestamps: true,
+      indexes: [{ fields: ["userId"] }, { fields: ["sessionId"] }],
+    },
+  );
+};
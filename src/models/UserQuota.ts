@@ -0,0 +1,65 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Per-user overrides of the generation quotas set by an admin
+ * A null limit means the user gets the default from the environment.
+ */
+export class UserQuota extends Model {
+  declare id: number;
+  declare userId: number;
+  declare dailyJobs: number | null;
+  declare dailyTextCharacters: number | null;
+  declare dailyAudioMinutes: number | null;
+  declare monthlyJobs: number | null;
+  declare monthlyTextCharacters: number | null;
+  declare monthlyAudioMinutes: number | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initUserQuota = (): void => {
+  UserQuota.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+      },
+      dailyJobs: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      dailyTextCharacters: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      dailyAudioMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      monthlyJobs: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      monthlyTextCharacters: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      monthlyAudioMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "UserQuotas",
+      timestamps: true,
+    },
+  );
+};
@@ -0,0 +1,41 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * Role granted to a user (one row per role)
+ * The admin role is kept in Users.isAdmin and every user implicitly has the
+ * user role, so only the other roles (moderator, sound-curator) are stored here.
+ */
+export class UserRole extends Model {
+  declare id: number;
+  declare userId: number;
+  declare role: string;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initUserRole = (): void => {
+  UserRole.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      role: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: "UserRoles",
+      timestamps: true,
+      indexes: [{ unique: true, fields: ["userId", "role"] }],
+    },
+  );
+};
@@ -0,0 +1,56 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * A signed-in device or client
+ * Created on every login; access and refresh tokens carry its id so the
+ * session can be listed and revoked independently of other devices.
+ */
+export class UserSession extends Model {
+  declare id: number;
+  declare userId: number;
+  declare userAgent: string | null;
+  declare ipAddress: string | null;
+  declare lastSeenAt: Date;
+  declare revokedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initUserSession = (): void => {
+  UserSession.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      userAgent: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      ipAddress: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      lastSeenAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "UserSessions",
+      timestamps: true,
+      indexes: [{ fields: ["userId"] }],
+    },
+  );
+};
@@ -0,0 +1,58 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "mantrify01db";
+
+/**
+ * TOTP two-factor settings for a user
+ * A record with enabledAt = null is an enrollment that was started but not
+ * yet confirmed with a code. Recovery codes are stored as a JSON array of
+ * SHA-256 hashes; each code is removed once used.
+ */
+export class UserTwoFactor extends Model {
+  declare id: number;
+  declare userId: number;
+  declare secret: string;
+  declare enabledAt: Date | null;
+  declare recoveryCodeHashes: string;
+  declare lastUsedStep: number | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const initUserTwoFactor = (): void => {
+  UserTwoFactor.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+      },
+      secret: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      enabledAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      recoveryCodeHashes: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+        defaultValue: "[]",
+      },
+      lastUsedStep: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: "UserTwoFactors",
+      timestamps: true,
+    },
+  );
+};
@@ -0,0 +1,87 @@
+import { Model, ModelStatic } from "sequelize";
+import { RefreshToken, initRefreshToken } from "./RefreshToken";
+import { UserSession, initUserSession } from "./UserSession";
+import { UserTwoFactor, initUserTwoFactor } from "./UserTwoFactor";
+import { ApiKey, initApiKey } from "./ApiKey";
+import { UserRole, initUserRole } from "./UserRole";
+import {
+  ContractUsersSoundFiles,
+  initContractUsersSoundFiles,
+} from "./ContractUsersSoundFiles";
+import { IdempotencyKey, initIdempotencyKey } from "./IdempotencyKey";
+import { MantraJobRequest, initMantraJobRequest } from "./MantraJobRequest";
+import { UserQuota, initUserQuota } from "./UserQuota";
+import { MantraShareToken, initMantraShareToken } from "./MantraShareToken";
+import { MantraDraft, initMantraDraft } from "./MantraDraft";
+import { MantraVersion, initMantraVersion } from "./MantraVersion";
+import { MantraRemix, initMantraRemix } from "./MantraRemix";
+import { MantraTag, initMantraTag } from "./MantraTag";
+import { MantraCategory, initMantraCategory } from "./MantraCategory";
+import {
+  ContractMantrasCategories,
+  initContractMantrasCategories,
+} from "./ContractMantrasCategories";
+
+/**
+ * Initializes the API-owned models on the shared mantrify01db connection
+ * Must be called before sequelize.sync() so their tables are created on startup
+ */
+export const initApiModels = (): void => {
+  initRefreshToken();
+  initUserSession();
+  initUserTwoFactor();
+  initApiKey();
+  initUserRole();
+  initContractUsersSoundFiles();
+  initIdempotencyKey();
+  initMantraJobRequest();
+  initUserQuota();
+  initMantraShareToken();
+  initMantraDraft();
+  initMantraVersion();
+  initMantraRemix();
+  initMantraTag();
+  initMantraCategory();
+  initContractMantrasCategories();
+};
+
+/**
+ * The API-owned models, in initialization order
+ */
+export const API_MODELS: ModelStatic<Model>[] = [
+  RefreshToken,
+  UserSession,
+  UserTwoFactor,
+  ApiKey,
+  UserRole,
+  ContractUsersSoundFiles,
+  IdempotencyKey,
+  MantraJobRequest,
+  UserQuota,
+  MantraShareToken,
+  MantraDraft,
+  MantraVersion,
+  MantraRemix,
+  MantraTag,
+  MantraCategory,
+  ContractMantrasCategories,
+];
+
+export {
+  RefreshToken,
+  UserSession,
+  UserTwoFactor,
+  ApiKey,
+  UserRole,
+  ContractUsersSoundFiles,
+  IdempotencyKey,
+  MantraJobRequest,
+  UserQuota,
+  MantraShareToken,
+  MantraDraft,
+  MantraVersion,
+  MantraRemix,
+  MantraTag,
+  MantraCategory,
+  ContractMantrasCategories,
+};
@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { Op } from "sequelize";
+import { User } from "mantrify01db";
+import { ApiKey } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import logger from "./logger";
+
+// Scopes a key can be granted
+// read: GET requests; <resource>:write: any other method on that resource
+export const API_KEY_SCOPES = ["read", "mantras:write", "sounds:write"];
+
+// Routers (first path segment) that accept API keys; account, admin and
+// database endpoints always require a logged-in session
+const API_KEY_RESOURCES = ["mantras", "sounds"];
+
+// Keys look like mfy_<48 hex chars>; the stored prefix includes 8 of them
+const API_KEY_TAG = "mfy_";
+const API_KEY_PREFIX_LENGTH = API_KEY_TAG.length + 8;
+
+// Only write lastUsedAt when it is older than this, to avoid a write per request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * API key details returned to clients (never includes the key itself)
+ */
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Caller identity resolved from an API key
+ */
+export interface ApiKeyIdentity {
+  userId: number;
+  email: string;
+  apiKeyId: number;
+  scopes: string[];
+}
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export const hashApiKey = (key: string): string =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+const toSummary = (apiKey: ApiKey): ApiKeySummary => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: JSON.parse(apiKey.scopes) as string[],
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * Create an API key
+ *
+ * @param userId - The key owner
+ * @param name - Label shown in listings (e.g. "CI uploader")
+ * @param scopes - Scopes from API_KEY_SCOPES
+ * @returns The summary plus the plain key (only returned once)
+ */
+export async function createApiKey(
+  userId: number,
+  name: string,
+  scopes: string[],
+): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const key = `${API_KEY_TAG}${crypto.randomBytes(24).toString("hex")}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    name,
+    prefix: key.slice(0, API_KEY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes: JSON.stringify(scopes),
+  });
+
+  logger.info(
+    `API key ${apiKey.id} created for user ${userId} with scopes: ${scopes.join(", ")}`,
+  );
+
+  return { apiKey: toSummary(apiKey), key };
+}
+
+/**
+ * List a user's active API keys, newest first
+ */
+export async function listApiKeys(userId: number): Promise<ApiKeySummary[]> {
+  const apiKeys = await ApiKey.findAll({
+    where: {
+      userId,
+      revokedAt: { [Op.is]: null },
+    },
+    order: [["createdAt", "DESC"]],
+  });
+
+  return apiKeys.map(toSummary);
+}
+
+/**
+ * Revoke one of a user's API keys
+ *
+ * @returns true if an active key was revoked
+ */
+export async function revokeApiKey(
+  userId: number,
+  apiKeyId: number,
+): Promise<boolean> {
+  const [revokedCount] = await ApiKey.update(
+    { revokedAt: new Date() },
+    {
+      where: {
+        id: apiKeyId,
+        userId,
+        revokedAt: { [Op.is]: null },
+      },
+    },
+  );
+
+  if (revokedCount > 0) {
+    logger.info(`API key ${apiKeyId} revoked for user ${userId}`);
+  }
+
+  return revokedCount > 0;
+}
+
+/**
+ * Read an API key from `Authorization: ApiKey <key>` or `X-API-Key: <key>`
+ *
+ * @returns The key, or null if the request does not use an API key
+ */
+export function extractApiKey(req: Request): string | null {
+  const headerKey = req.get("x-api-key");
+
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const parts = (req.headers.authorization || "").split(" ");
+
+  if (parts.length === 2 && parts[0] === "ApiKey") {
+    return parts[1];
+  }
+
+  return null;
+}
+
+/**
+ * Scope a request needs when made with an API key
+ *
+ * @returns The scope name, or null if API keys are not accepted for the route
+ */
+export function requiredApiKeyScope(req: Request): string | null {
+  const resource = req.baseUrl.split("/")[1];
+
+  if (!API_KEY_RESOURCES.includes(resource)) {
+    return null;
+  }
+
+  if (req.method === "GET" || req.method === "HEAD") {
+    return "read";
+  }
+
+  return `${resource}:write`;
+}
+
+/**
+ * Resolve an API key to its owner and check it covers the request
+ *
+ * @param key - Key presented by the client
+ * @param req - The request being authorized
+ * @returns ApiKeyIdentity for req.user
+ */
+export async function authenticateApiKey(
+  key: string,
+  req: Request,
+): Promise<ApiKeyIdentity> {
+  const apiKey = await ApiKey.findOne({ where: { keyHash: hashApiKey(key) } });
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw new AppError(ErrorCodes.INVALID_TOKEN, "Invalid API key", 401);
+  }
+
+  const user = await User.findByPk(apiKey.userId);
+
+  if (!user) {
+    throw new AppError(ErrorCodes.INVALID_TOKEN, "Invalid API key", 401);
+  }
+
+  const scopes = JSON.parse(apiKey.scopes) as string[];
+  const requiredScope = requiredApiKeyScope(req);
+
+  if (!requiredScope) {
+    throw new AppError(
+      ErrorCodes.INSUFFICIENT_SCOPE,
+      "API keys cannot be used for this endpoint",
+      403,
+    );
+  }
+
+  if (!scopes.includes(requiredScope)) {
+    logger.warn(
+      `API key ${apiKey.id} lacks scope ${requiredScope}: ${req.method} ${req.originalUrl}`,
+    );
+    throw new AppError(
+      ErrorCodes.INSUFFICIENT_SCOPE,
+      `API key is missing the required scope: ${requiredScope}`,
+      403,
+    );
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    Date.now() - new Date(apiKey.lastUsedAt).getTime() >=
+      LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await apiKey.update({ lastUsedAt: new Date() });
+  }
+
+  return {
+    userId: apiKey.userId,
+    email: user.email as string,
+    apiKeyId: apiKey.id,
+    scopes,
+  };
+}
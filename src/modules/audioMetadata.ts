@@ -0,0 +1,168 @@
+import fs from "fs";
+
+// Bytes read from the first frame onwards to find the frame header and a Xing/VBRI header
+const HEADER_SCAN_BYTES = 64 * 1024;
+
+// MPEG Layer III bitrates in kbps by bitrate index
+const BITRATES_MPEG1 = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+const BITRATES_MPEG2 = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160,
+];
+
+// Sample rates by MPEG version bits (0: 2.5, 2: 2, 3: 1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+export interface AudioFileInfo {
+  fileSize: number;
+  durationSeconds: number | null;
+}
+
+interface FrameHeader {
+  offset: number;
+  isMpeg1: boolean;
+  isMono: boolean;
+  bitrateKbps: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+}
+
+/**
+ * Parse the first valid MPEG Layer III frame header in a buffer
+ */
+const findFrameHeader = (buffer: Buffer): FrameHeader | null => {
+  for (let offset = 0; offset + 4 <= buffer.length; offset++) {
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+
+    const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+    const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = buffer[offset + 2] >> 4;
+    const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+
+    // Layer III only, no reserved or free-format values
+    if (
+      versionBits === 1 ||
+      layerBits !== 1 ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15 ||
+      sampleRateIndex === 3
+    ) {
+      continue;
+    }
+
+    const isMpeg1 = versionBits === 3;
+
+    return {
+      offset,
+      isMpeg1,
+      isMono: buffer[offset + 3] >> 6 === 3,
+      bitrateKbps: (isMpeg1 ? BITRATES_MPEG1 : BITRATES_MPEG2)[bitrateIndex],
+      sampleRate: SAMPLE_RATES[versionBits][sampleRateIndex],
+      samplesPerFrame: isMpeg1 ? 1152 : 576,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Frame count from a Xing/Info (or VBRI) header in the first frame, if present
+ */
+const readFrameCount = (buffer: Buffer, header: FrameHeader): number | null => {
+  const sideInfoSize = header.isMpeg1
+    ? header.isMono
+      ? 17
+      : 32
+    : header.isMono
+      ? 9
+      : 17;
+  const xingOffset = header.offset + 4 + sideInfoSize;
+
+  if (xingOffset + 12 <= buffer.length) {
+    const tag = buffer.toString("latin1", xingOffset, xingOffset + 4);
+
+    // Flag 0x01: the frame count field is present
+    if (
+      (tag === "Xing" || tag === "Info") &&
+      buffer.readUInt32BE(xingOffset + 4) & 0x01
+    ) {
+      return buffer.readUInt32BE(xingOffset + 8);
+    }
+  }
+
+  const vbriOffset = header.offset + 36;
+
+  if (
+    vbriOffset + 18 <= buffer.length &&
+    buffer.toString("latin1", vbriOffset, vbriOffset + 4) === "VBRI"
+  ) {
+    return buffer.readUInt32BE(vbriOffset + 14);
+  }
+
+  return null;
+};
+
+/**
+ * Size and duration of an MP3 file
+ * The duration comes from the Xing/Info/VBRI header when the encoder wrote one,
+ * otherwise it is calculated from the first frame's bitrate (exact for CBR files).
+ * durationSeconds is null when no MPEG Layer III frame is found.
+ *
+ * @param filePath - Full path of the MP3 file
+ */
+export async function readMp3Info(filePath: string): Promise<AudioFileInfo> {
+  const handle = await fs.promises.open(filePath, "r");
+
+  try {
+    const { size: fileSize } = await handle.stat();
+
+    // Skip an ID3v2 tag (10-byte header, synchsafe size, optional 10-byte footer)
+    const id3 = Buffer.alloc(10);
+    await handle.read(id3, 0, 10, 0);
+
+    let audioStart = 0;
+
+    if (id3.toString("latin1", 0, 3) === "ID3") {
+      audioStart =
+        10 +
+        ((id3[6] & 0x7f) << 21) +
+        ((id3[7] & 0x7f) << 14) +
+        ((id3[8] & 0x7f) << 7) +
+        (id3[9] & 0x7f) +
+        (id3[5] & 0x10 ? 10 : 0);
+    }
+
+    const buffer = Buffer.alloc(
+      Math.max(0, Math.min(HEADER_SCAN_BYTES, fileSize - audioStart)),
+    );
+    const { bytesRead } = await handle.read(
+      buffer,
+      0,
+      buffer.length,
+      audioStart,
+    );
+    const header = findFrameHeader(buffer.subarray(0, bytesRead));
+
+    if (!header) {
+      return { fileSize, durationSeconds: null };
+    }
+
+    const frameCount = readFrameCount(buffer, header);
+    const seconds =
+      frameCount !== null
+        ? (frameCount * header.samplesPerFrame) / header.sampleRate
+        : ((fileSize - audioStart - header.offset) * 8) /
+          (header.bitrateKbps * 1000);
+
+    return { fileSize, durationSeconds: Math.round(seconds * 10) / 10 };
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,23 +1,42 @@
 import { Request, Response, NextFunction } from "express";
-import { verifyAccessToken, AccessTokenPayload } from "./jwt";
+import { verifyAccessToken } from "./jwt";
 import { AppError, ErrorCodes } from "./errorHandler";
+import { findActiveSession, touchSession } from "./sessions";
+import { extractApiKey, authenticateApiKey } from "./apiKeys";
+
+// Authenticated caller: a login session (access token) or a personal API key
+export interface AuthenticatedUser {
+  userId: number;
+  email: string;
+  sessionId?: number;
+  apiKeyId?: number;
+  scopes?: string[];
+}
 
 // Extend Express Request to include user info
 declare global {
   namespace Express {
     interface Request {
-      user?: AccessTokenPayload;
+      user?: AuthenticatedUser;
     }
   }
 }
 
 // Authentication middleware
-export const authMiddleware = (
+export const authMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    // API keys (Authorization: ApiKey <key> or X-API-Key) are checked against their scopes
+    const apiKey = extractApiKey(req);
+
+    if (apiKey) {
+      req.user = await authenticateApiKey(apiKey, req);
+      return next();
+    }
+
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
 
@@ -34,7 +53,7 @@ export const authMiddleware = (
     if (parts.length !== 2 || parts[0] !== "Bearer") {
       throw new AppError(
         ErrorCodes.AUTH_FAILED,
-        "Invalid authorization format. Expected: Bearer <token>",
+        "Invalid authorization format. Expected: Bearer <token> or ApiKey <key>",
         401
       );
     }
@@ -44,6 +63,21 @@ export const authMiddleware = (
     // Verify token
     const payload = verifyAccessToken(token);
 
+    // Reject tokens whose session was revoked (logout, "log out everywhere")
+    const session = payload.sessionId
+      ? await findActiveSession(payload.sessionId, payload.userId)
+      : null;
+
+    if (!session) {
+      throw new AppError(
+        ErrorCodes.INVALID_TOKEN,
+        "Session has been revoked. Please log in again.",
+        401
+      );
+    }
+
+    await touchSession(session, req);
+
     // Attach user info to request
     req.user = payload;
 
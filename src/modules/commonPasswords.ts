@@ -0,0 +1,104 @@
+// Frequently used passwords rejected by the password policy (compared lowercase)
+// Source: most common entries of public password breach lists
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "123456",
+  "123456789",
+  "12345678",
+  "1234567890",
+  "12345",
+  "1234567",
+  "123123",
+  "1234",
+  "111111",
+  "000000",
+  "121212",
+  "654321",
+  "666666",
+  "696969",
+  "7777777",
+  "112233",
+  "123321",
+  "147258369",
+  "987654321",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "1qaz2wsx",
+  "qwerty",
+  "qwerty123",
+  "qwertyuiop",
+  "qwe123",
+  "asdfgh",
+  "asdfghjkl",
+  "zxcvbnm",
+  "azerty",
+  "password",
+  "password1",
+  "password12",
+  "password123",
+  "passw0rd",
+  "p@ssw0rd",
+  "p@ssword",
+  "pass1234",
+  "admin",
+  "admin123",
+  "administrator",
+  "root",
+  "letmein",
+  "welcome",
+  "welcome1",
+  "welcome123",
+  "login",
+  "abc123",
+  "abcd1234",
+  "a1b2c3d4",
+  "iloveyou",
+  "iloveyou1",
+  "princess",
+  "sunshine",
+  "monkey",
+  "dragon",
+  "football",
+  "baseball",
+  "soccer",
+  "hockey",
+  "master",
+  "superman",
+  "batman",
+  "trustno1",
+  "shadow",
+  "michael",
+  "jennifer",
+  "jordan23",
+  "hunter2",
+  "freedom",
+  "whatever",
+  "starwars",
+  "pokemon",
+  "charlie",
+  "mustang",
+  "access",
+  "flower",
+  "secret",
+  "changeme",
+  "default",
+  "guest",
+  "test1234",
+  "testtest",
+  "computer",
+  "internet",
+  "google",
+  "samsung",
+  "cheese",
+  "chocolate",
+  "summer2024",
+  "winter2024",
+  "spring2024",
+  "autumn2024",
+  "mantrify",
+  "mantrify1",
+  "mantrify123",
+  "meditation",
+  "meditate",
+  "namaste",
+  "mindfulness",
+]);
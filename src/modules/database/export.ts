@@ -9,13 +9,29 @@ import {
   ContractMantrasElevenLabsFiles,
   ContractMantrasSoundFiles,
 } from "mantrify01db";
+import {
+  ApiKey,
+  UserRole,
+  ContractUsersSoundFiles,
+  MantraJobRequest,
+  UserQuota,
+  MantraShareToken,
+  MantraDraft,
+  MantraVersion,
+  MantraRemix,
+  MantraTag,
+  MantraCategory,
+  ContractMantrasCategories,
+} from "../../models";
 import { createObjectCsvWriter } from "csv-writer";
 import path from "path";
 import logger from "../logger";
 import { AppError, ErrorCodes } from "../errorHandler";
 
 /**
- * Get all database tables/models
+ * Get all database tables/models included in backups
+ * UserTwoFactors is left out: its TOTP secrets would let anyone holding a
+ * backup generate second-factor codes. Restores only read these tables.
  */
 export function getAllTables(): Array<{ name: string; model: any }> {
   return [
@@ -28,6 +44,18 @@ export function getAllTables(): Array<{ name: string; model: any }> {
     { name: "SoundFiles", model: SoundFiles },
     { name: "ContractMantrasElevenLabsFiles", model: ContractMantrasElevenLabsFiles },
     { name: "ContractMantrasSoundFiles", model: ContractMantrasSoundFiles },
+    { name: "ApiKeys", model: ApiKey },
+    { name: "UserRoles", model: UserRole },
+    { name: "ContractUsersSoundFiles", model: ContractUsersSoundFiles },
+    { name: "MantraJobRequests", model: MantraJobRequest },
+    { name: "UserQuotas", model: UserQuota },
+    { name: "MantraShareTokens", model: MantraShareToken },
+    { name: "MantraDrafts", model: MantraDraft },
+    { name: "MantraVersions", model: MantraVersion },
+    { name: "MantraRemixes", model: MantraRemix },
+    { name: "MantraTags", model: MantraTag },
+    { name: "MantraCategories", model: MantraCategory },
+    { name: "ContractMantrasCategories", model: ContractMantrasCategories },
   ];
 }
 
@@ -9,10 +9,28 @@ import {
   sequelize,
 } from "mantrify01db";
 import { Op } from "sequelize";
+import {
+  RefreshToken,
+  UserSession,
+  UserTwoFactor,
+  ApiKey,
+  UserRole,
+  ContractUsersSoundFiles,
+  IdempotencyKey,
+  MantraJobRequest,
+  UserQuota,
+  MantraShareToken,
+  MantraDraft,
+  MantraVersion,
+  MantraTag,
+  ContractMantrasCategories,
+  MantraRemix,
+} from "../models";
 import path from "path";
 import fs from "fs";
 import logger from "./logger";
 import { AppError, ErrorCodes } from "./errorHandler";
+import { deleteMantraVersionFiles } from "./mantraVersions";
 
 /**
  * Result returned by deleteUser function
@@ -66,11 +84,11 @@ export async function deleteUser(
 
   if (allUserMantraIds.length > 0) {
     if (savePublicMantrasAsBenevolentUser) {
-      // Only delete private mantras
+      // Only delete private and unlisted mantras
       const privateMantras = await Mantra.findAll({
         where: {
           id: { [Op.in]: allUserMantraIds },
-          visibility: "private",
+          visibility: { [Op.ne]: "public" },
         },
         attributes: ["id"],
       });
@@ -80,7 +98,7 @@ export async function deleteUser(
       );
 
       logger.info(
-        `Found ${userDeleteMantraIdsArray.length} private mantra(s) to delete for user ${userId}`
+        `Found ${userDeleteMantraIdsArray.length} private or unlisted mantra(s) to delete for user ${userId}`
       );
     } else {
       // Delete all mantras
@@ -228,6 +246,15 @@ export async function deleteUser(
     logger.info(
       `Deleted ${mantraFilesDeletedCount} of ${mantrasToDelete.length} mantra MP3 file(s)`
     );
+
+    // Earlier audio versions of the mantras
+    let versionFilesDeletedCount = 0;
+
+    for (const mantraId of userDeleteMantraIdsArray) {
+      versionFilesDeletedCount += await deleteMantraVersionFiles(mantraId);
+    }
+
+    logger.info(`Deleted ${versionFilesDeletedCount} mantra version file(s)`);
   }
 
   // PHASE 3: Database Cleanup
@@ -282,7 +309,137 @@ export async function deleteUser(
     });
     logger.info(`Deleted ${deletedQueueCount} queue record(s) for user ${userId}`);
 
-    // Step 12: Handle user record
+    // Step 12: Delete refresh tokens (logs the user out everywhere)
+    const deletedRefreshTokenCount = await RefreshToken.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+    logger.info(
+      `Deleted ${deletedRefreshTokenCount} refresh token(s) for user ${userId}`
+    );
+
+    // Step 13: Delete sessions
+    const deletedSessionCount = await UserSession.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+    logger.info(`Deleted ${deletedSessionCount} session(s) for user ${userId}`);
+
+    // Step 14: Delete two-factor settings
+    await UserTwoFactor.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 15: Delete API keys
+    const deletedApiKeyCount = await ApiKey.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+    logger.info(`Deleted ${deletedApiKeyCount} API key(s) for user ${userId}`);
+
+    // Step 16: Delete role assignments
+    await UserRole.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 17: Delete uploader records (the sound files themselves are kept)
+    await ContractUsersSoundFiles.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 18: Delete stored idempotent responses
+    await IdempotencyKey.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 19: Delete stored mantra job requests
+    await MantraJobRequest.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 20: Delete quota overrides
+    await UserQuota.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 21: Delete share links
+    await MantraShareToken.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 22: Delete drafts
+    await MantraDraft.destroy({
+      where: {
+        userId,
+      },
+      transaction,
+    });
+
+    // Step 23: Delete versions of deleted mantras
+    if (userDeleteMantraIdsArray.length > 0) {
+      await MantraVersion.destroy({
+        where: {
+          mantraId: { [Op.in]: userDeleteMantraIdsArray },
+        },
+        transaction,
+      });
+    }
+
+    // Step 24: Delete tags and categories of deleted mantras
+    if (userDeleteMantraIdsArray.length > 0) {
+      await MantraTag.destroy({
+        where: {
+          mantraId: { [Op.in]: userDeleteMantraIdsArray },
+        },
+        transaction,
+      });
+
+      await ContractMantrasCategories.destroy({
+        where: {
+          mantraId: { [Op.in]: userDeleteMantraIdsArray },
+        },
+        transaction,
+      });
+    }
+
+    // Step 25: Delete remix attribution of deleted mantras
+    if (userDeleteMantraIdsArray.length > 0) {
+      await MantraRemix.destroy({
+        where: {
+          mantraId: { [Op.in]: userDeleteMantraIdsArray },
+        },
+        transaction,
+      });
+    }
+
+    // Step 26: Handle user record
     if (savePublicMantrasAsBenevolentUser) {
       // Convert to benevolent user
       await User.update(
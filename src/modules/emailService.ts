@@ -109,3 +109,169 @@ export const sendPasswordResetEmail = async (
     throw new Error(`Failed to send password reset email: ${error.message}`);
   }
 };
+
+// Send email change confirmation to the new address
+export const sendEmailChangeConfirmationEmail = async (
+  newEmail: string,
+  token: string
+): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("emailChangeConfirmation.html");
+    let htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Build confirmation URL
+    const confirmationUrl = `http://localhost:${process.env.PORT}/users/confirm-email-change?token=${token}`;
+
+    // Replace placeholders in template
+    htmlTemplate = htmlTemplate.replace(/{{confirmationUrl}}/g, confirmationUrl);
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: newEmail,
+      subject: "Confirm your new Mantrify email address",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Email change confirmation sent to ${newEmail}`);
+  } catch (error: any) {
+    logger.error(
+      `Failed to send email change confirmation to ${newEmail}: ${error.message}`
+    );
+    throw new Error(`Failed to send email change confirmation: ${error.message}`);
+  }
+};
+
+// Send notice that the account password was changed
+export const sendPasswordChangedEmail = async (email: string): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("passwordChanged.html");
+    let htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Replace placeholders in template
+    htmlTemplate = htmlTemplate.replace(
+      /{{changedAt}}/g,
+      new Date().toUTCString()
+    );
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: email,
+      subject: "Your Mantrify password was changed",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Password changed notice sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`Failed to send password changed notice to ${email}: ${error.message}`);
+    throw new Error(`Failed to send password changed notice: ${error.message}`);
+  }
+};
+
+// Send notice to the old address that the account email was changed
+export const sendEmailChangedEmail = async (
+  oldEmail: string,
+  newEmail: string
+): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("emailChanged.html");
+    let htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Replace placeholders in template
+    htmlTemplate = htmlTemplate
+      .replace(/{{newEmail}}/g, newEmail)
+      .replace(/{{changedAt}}/g, new Date().toUTCString());
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: oldEmail,
+      subject: "Your Mantrify email address was changed",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Email changed notice sent to ${oldEmail}`);
+  } catch (error: any) {
+    logger.error(`Failed to send email changed notice to ${oldEmail}: ${error.message}`);
+    throw new Error(`Failed to send email changed notice: ${error.message}`);
+  }
+};
+
+// Send notice that the account was locked after repeated failed logins
+export const sendAccountLockedEmail = async (
+  email: string,
+  lockoutMinutes: number
+): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("accountLocked.html");
+    let htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Replace placeholders in template
+    htmlTemplate = htmlTemplate.replace(
+      /{{lockoutMinutes}}/g,
+      lockoutMinutes.toString()
+    );
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: email,
+      subject: "Your Mantrify account was temporarily locked",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Account locked notice sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`Failed to send account locked notice to ${email}: ${error.message}`);
+    throw new Error(`Failed to send account locked notice: ${error.message}`);
+  }
+};
+
+// Send notice that a mantra creation job finished
+export const sendMantraReadyEmail = async (email: string): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("mantraReady.html");
+    const htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: email,
+      subject: "Your Mantrify mantra is ready",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Mantra ready notice sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`Failed to send mantra ready notice to ${email}: ${error.message}`);
+    throw new Error(`Failed to send mantra ready notice: ${error.message}`);
+  }
+};
+
+// Send notice that a mantra creation job failed
+export const sendMantraFailedEmail = async (email: string): Promise<void> => {
+  try {
+    // Read HTML template
+    const templatePath = resolveTemplatePath("mantraFailed.html");
+    const htmlTemplate = fs.readFileSync(templatePath, "utf-8");
+
+    // Send email
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM!,
+      to: email,
+      subject: "Your Mantrify mantra could not be created",
+      html: htmlTemplate,
+    });
+
+    logger.info(`Mantra failed notice sent to ${email}`);
+  } catch (error: any) {
+    logger.error(`Failed to send mantra failed notice to ${email}: ${error.message}`);
+    throw new Error(`Failed to send mantra failed notice: ${error.message}`);
+  }
+};
@@ -19,6 +19,8 @@ export const ErrorCodes = {
   NOT_FOUND: "NOT_FOUND",
   CONFLICT: "CONFLICT",
   RATE_LIMIT_EXCEEDED: "RATE_LIMIT_EXCEEDED",
+  QUOTA_EXCEEDED: "QUOTA_EXCEEDED",
+  ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
   INTERNAL_ERROR: "INTERNAL_ERROR",
   SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
   EMAIL_NOT_VERIFIED: "EMAIL_NOT_VERIFIED",
@@ -29,6 +31,9 @@ export const ErrorCodes = {
   UNAUTHORIZED_ACCESS: "UNAUTHORIZED_ACCESS",
   QUEUER_ERROR: "QUEUER_ERROR",
   ADMIN_REQUIRED: "ADMIN_REQUIRED",
+  TWO_FACTOR_REQUIRED: "TWO_FACTOR_REQUIRED",
+  INSUFFICIENT_SCOPE: "INSUFFICIENT_SCOPE",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
   BACKUP_FAILED: "BACKUP_FAILED",
   BACKUP_NOT_FOUND: "BACKUP_NOT_FOUND",
   INVALID_FILENAME: "INVALID_FILENAME",
@@ -45,11 +50,14 @@ export const createErrorResponse = (
 ): ErrorResponse => {
   const isDevelopment = process.env.NODE_ENV === "development";
 
+  // Validation details describe the client's own input, so they are always returned
+  const exposeDetails = isDevelopment || code === ErrorCodes.VALIDATION_ERROR;
+
   return {
     error: {
       code,
       message,
-      details: isDevelopment ? details : undefined,
+      details: exposeDetails ? details : undefined,
       status,
     },
   };
@@ -82,6 +90,14 @@ export const errorHandler = (
 
   // Handle AppError
   if (err instanceof AppError) {
+    // Limit errors tell the client how long to wait
+    if (
+      err.statusCode === 429 &&
+      typeof err.details?.retryAfterSeconds === "number"
+    ) {
+      res.setHeader("Retry-After", err.details.retryAfterSeconds.toString());
+    }
+
     const response = createErrorResponse(
       err.code,
       err.message,
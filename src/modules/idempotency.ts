@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { Op, UniqueConstraintError } from "sequelize";
+import { IdempotencyKey } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import logger from "./logger";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// How long a stored response is replayed for the same key
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(
+  process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24",
+  10,
+);
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// A request still marked in progress after this long is assumed to have died without responding
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Response headers replayed along with the stored body
+const REPLAYED_HEADERS = ["Location"];
+
+/**
+ * Fingerprint of a request: the endpoint, the JSON/form body and any uploaded file
+ */
+const hashRequest = (scope: string, req: Request): string => {
+  const file = req.file
+    ? {
+        originalname: req.file.originalname,
+        size: req.file.size,
+        sha256: crypto.createHash("sha256").update(req.file.buffer).digest("hex"),
+      }
+    : null;
+
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ scope, body: req.body ?? null, file }))
+    .digest("hex");
+};
+
+// Server errors and rate limits are not stored, so a retry runs the request again
+const isStorableStatus = (statusCode: number): boolean =>
+  statusCode < 500 && statusCode !== 429;
+
+/**
+ * Idempotency middleware - replays the stored response when a request is retried
+ * with the same Idempotency-Key header
+ * Must be used after authMiddleware (keys are stored per user) and after any body
+ * parsing such as multer. Requests without the header are not affected.
+ *
+ * @param scope - Name of the endpoint; reusing a key on another endpoint is a conflict
+ */
+export const idempotency = (scope: string) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+      if (key === undefined) {
+        return next();
+      }
+
+      if (key.trim() === "" || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+          400,
+        );
+      }
+
+      const userId = req.user!.userId;
+      const requestHash = hashRequest(scope, req);
+
+      // Expired keys can be reused
+      await IdempotencyKey.destroy({
+        where: { userId, expiresAt: { [Op.lte]: new Date() } },
+      });
+
+      let existing = await IdempotencyKey.findOne({ where: { userId, key } });
+
+      if (
+        existing &&
+        existing.statusCode === null &&
+        Date.now() - existing.createdAt.getTime() > IN_PROGRESS_TIMEOUT_MS
+      ) {
+        await existing.destroy();
+        existing = null;
+      }
+
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          throw new AppError(
+            ErrorCodes.CONFLICT,
+            `${IDEMPOTENCY_KEY_HEADER} was already used with a different request`,
+            409,
+          );
+        }
+
+        if (existing.statusCode === null) {
+          throw new AppError(
+            ErrorCodes.CONFLICT,
+            `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+            409,
+          );
+        }
+
+        logger.info(
+          `Replaying ${scope} response for user ${userId} (${IDEMPOTENCY_KEY_HEADER} ${key})`,
+        );
+
+        const headers = JSON.parse(existing.responseHeaders || "{}");
+        res.set({ ...headers, "Idempotent-Replayed": "true" });
+        res.status(existing.statusCode).json(JSON.parse(existing.responseBody!));
+        return;
+      }
+
+      let record: IdempotencyKey;
+
+      try {
+        record = await IdempotencyKey.create({
+          userId,
+          key,
+          requestHash,
+          expiresAt: new Date(
+            Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000,
+          ),
+        });
+      } catch (error) {
+        // A concurrent request with the same key created the record first
+        if (error instanceof UniqueConstraintError) {
+          throw new AppError(
+            ErrorCodes.CONFLICT,
+            `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+            409,
+          );
+        }
+        throw error;
+      }
+
+      // Store the response when the handler (or the error handler) sends it
+      const originalJson = res.json.bind(res);
+
+      res.json = (body?: any) => {
+        const storeResponse = isStorableStatus(res.statusCode)
+          ? record.update({
+              statusCode: res.statusCode,
+              responseBody: JSON.stringify(body ?? null),
+              responseHeaders: JSON.stringify(
+                Object.fromEntries(
+                  REPLAYED_HEADERS.filter((name) => res.get(name)).map(
+                    (name) => [name, res.get(name)],
+                  ),
+                ),
+              ),
+            })
+          : record.destroy();
+
+        storeResponse.catch((error: any) => {
+          logger.error(
+            `Failed to store ${IDEMPOTENCY_KEY_HEADER} response for user ${userId}: ${error.message}`,
+          );
+        });
+
+        return originalJson(body);
+      };
+
+      next();
+    } catch (error: any) {
+      next(error);
+    }
+  };
+};
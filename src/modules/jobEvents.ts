@@ -0,0 +1,126 @@
+import { Response } from "express";
+import { findMantraJob, JobStatus, MantraJob } from "./mantraJobs";
+import logger from "./logger";
+
+// How often open streams re-read the job
+const JOB_EVENTS_POLL_INTERVAL_MS = 1000;
+
+// Comment lines keep idle connections open through proxies
+const JOB_EVENTS_HEARTBEAT_SECONDS = parseInt(
+  process.env.JOB_EVENTS_HEARTBEAT_SECONDS || "15",
+  10,
+);
+
+// How long to wait for the queuer's result (the new mantra ID) after Queue.status reaches done
+const COMPLETION_GRACE_MS = 30 * 1000;
+
+const writeEvent = (res: Response, event: string, data: object): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Stream a job's progress as Server-Sent Events
+ * Sends a status event for every status change, then a complete event with the
+ * new mantra ID (or an error event) and closes the stream.
+ * The caller must have authorized access to the job.
+ *
+ * @param job - The job as read when the request was authorized
+ * @param res - Response the events are written to
+ */
+export function streamMantraJobEvents(job: MantraJob, res: Response): void {
+  const { queueId } = job;
+  let lastStatus: JobStatus | null = null;
+  // Jobs that are already done when the stream opens are not waited on
+  let doneSince: number | null = job.status === "done" ? 0 : null;
+  let polling = false;
+  let closed = false;
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const close = (): void => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+    res.end();
+  };
+
+  const publish = (current: MantraJob | null): void => {
+    if (!current) {
+      writeEvent(res, "error", { queueId, message: "Job not found" });
+      close();
+      return;
+    }
+
+    if (current.status !== lastStatus) {
+      lastStatus = current.status;
+      writeEvent(res, "status", {
+        queueId,
+        status: current.status,
+        updatedAt: current.updatedAt,
+      });
+    }
+
+    if (current.status === "failed" || current.status === "cancelled") {
+      writeEvent(res, "error", {
+        queueId,
+        message:
+          current.status === "cancelled" ? "Job was cancelled" : current.error,
+      });
+      close();
+      return;
+    }
+
+    if (current.status === "done") {
+      doneSince = doneSince ?? Date.now();
+
+      if (
+        current.mantraId !== null ||
+        Date.now() - doneSince >= COMPLETION_GRACE_MS
+      ) {
+        writeEvent(res, "complete", { queueId, mantraId: current.mantraId });
+        close();
+      }
+    }
+  };
+
+  const pollTimer = setInterval(async () => {
+    if (polling || closed) {
+      return;
+    }
+
+    polling = true;
+
+    try {
+      const current = await findMantraJob(queueId);
+
+      if (!closed) {
+        publish(current);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to read job ${queueId} for events: ${error.message}`);
+      writeEvent(res, "error", { queueId, message: "Failed to retrieve job" });
+      close();
+    } finally {
+      polling = false;
+    }
+  }, JOB_EVENTS_POLL_INTERVAL_MS);
+
+  const heartbeatTimer = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, JOB_EVENTS_HEARTBEAT_SECONDS * 1000);
+
+  // Stop polling when the client disconnects
+  res.on("close", close);
+
+  publish(job);
+}
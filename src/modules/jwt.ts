@@ -1,4 +1,4 @@
-import jwt from "jsonwebtoken";
+import jwt, { SignOptions } from "jsonwebtoken";
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
@@ -7,36 +7,93 @@ if (!JWT_SECRET) {
   process.exit(1);
 }
 
+/**
+ * What a token was issued for
+ * All tokens share JWT_SECRET, so every verify function checks the purpose to
+ * keep one kind of token from being accepted in place of another.
+ */
+export type TokenPurpose =
+  | "access"
+  | "email-verification"
+  | "password-reset"
+  | "email-change"
+  | "two-factor";
+
+// Access token lifetime (e.g. "15m", "1h"); refresh tokens keep sessions alive
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.ACCESS_TOKEN_EXPIRES_IN ||
+  "15m") as SignOptions["expiresIn"];
+
 // Payload interface for access tokens
 export interface AccessTokenPayload {
   userId: number;
   email: string;
+  sessionId: number;
+  purpose: "access";
 }
 
 // Payload interface for email verification tokens
 export interface EmailVerificationPayload {
   userId: number;
   email: string;
+  purpose: "email-verification";
 }
 
 // Payload interface for password reset tokens
 export interface PasswordResetPayload {
   userId: number;
   email: string;
+  purpose: "password-reset";
+}
+
+// Payload interface for email change confirmation tokens
+export interface EmailChangePayload {
+  userId: number;
+  email: string;
+  newEmail: string;
+  sessionId: number;
+  purpose: "email-change";
+}
+
+// Payload interface for the token bridging password and 2FA login steps
+export interface TwoFactorChallengePayload {
+  userId: number;
+  email: string;
+  purpose: "two-factor";
 }
 
-// Generate access token (no expiration as per requirements)
-export const generateAccessToken = (userId: number, email: string): string => {
+// Verify a token and check it was issued for the expected purpose
+// A mismatch is reported as a JsonWebTokenError, like any other invalid token
+const verifyTokenWithPurpose = <T extends { purpose: TokenPurpose }>(
+  token: string,
+  purpose: T["purpose"]
+): T => {
+  const payload = jwt.verify(token, JWT_SECRET);
+
+  if (typeof payload !== "object" || payload.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError("invalid token purpose");
+  }
+
+  return payload as unknown as T;
+};
+
+// Generate access token (expires after ACCESS_TOKEN_EXPIRES_IN, default 15 minutes)
+export const generateAccessToken = (
+  userId: number,
+  email: string,
+  sessionId: number
+): string => {
   const payload: AccessTokenPayload = {
     userId,
     email,
+    sessionId,
+    purpose: "access",
   };
-  return jwt.sign(payload, JWT_SECRET);
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN });
 };
 
 // Verify access token
 export const verifyAccessToken = (token: string): AccessTokenPayload => {
-  return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+  return verifyTokenWithPurpose<AccessTokenPayload>(token, "access");
 };
 
 // Generate email verification token (30 minutes expiration)
@@ -47,6 +104,7 @@ export const generateEmailVerificationToken = (
   const payload: EmailVerificationPayload = {
     userId,
     email,
+    purpose: "email-verification",
   };
   return jwt.sign(payload, JWT_SECRET, { expiresIn: "30m" });
 };
@@ -55,7 +113,7 @@ export const generateEmailVerificationToken = (
 export const verifyEmailVerificationToken = (
   token: string
 ): EmailVerificationPayload => {
-  return jwt.verify(token, JWT_SECRET) as EmailVerificationPayload;
+  return verifyTokenWithPurpose<EmailVerificationPayload>(token, "email-verification");
 };
 
 // Generate password reset token (30 minutes expiration)
@@ -66,6 +124,7 @@ export const generatePasswordResetToken = (
   const payload: PasswordResetPayload = {
     userId,
     email,
+    purpose: "password-reset",
   };
   return jwt.sign(payload, JWT_SECRET, { expiresIn: "30m" });
 };
@@ -74,5 +133,47 @@ export const generatePasswordResetToken = (
 export const verifyPasswordResetToken = (
   token: string
 ): PasswordResetPayload => {
-  return jwt.verify(token, JWT_SECRET) as PasswordResetPayload;
+  return verifyTokenWithPurpose<PasswordResetPayload>(token, "password-reset");
+};
+
+// Generate email change confirmation token (30 minutes expiration)
+export const generateEmailChangeToken = (
+  userId: number,
+  email: string,
+  newEmail: string,
+  sessionId: number
+): string => {
+  const payload: EmailChangePayload = {
+    userId,
+    email,
+    newEmail,
+    sessionId,
+    purpose: "email-change",
+  };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: "30m" });
+};
+
+// Verify email change confirmation token
+export const verifyEmailChangeToken = (token: string): EmailChangePayload => {
+  return verifyTokenWithPurpose<EmailChangePayload>(token, "email-change");
+};
+
+// Generate two-factor login challenge token (5 minutes expiration)
+export const generateTwoFactorChallengeToken = (
+  userId: number,
+  email: string
+): string => {
+  const payload: TwoFactorChallengePayload = {
+    userId,
+    email,
+    purpose: "two-factor",
+  };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: "5m" });
+};
+
+// Verify two-factor login challenge token
+export const verifyTwoFactorChallengeToken = (
+  token: string
+): TwoFactorChallengePayload => {
+  return verifyTokenWithPurpose<TwoFactorChallengePayload>(token, "two-factor");
 };
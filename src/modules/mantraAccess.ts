@@ -0,0 +1,143 @@
+import { Mantra, ContractUsersMantras } from "mantrify01db";
+import path from "path";
+import { Model } from "sequelize";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { isValidShareToken } from "./mantraShares";
+
+// public: listed for everyone; unlisted: reachable by the owner and through a share link; private: owner only
+export const MANTRA_VISIBILITIES = ["public", "unlisted", "private"] as const;
+export type MantraVisibility = (typeof MANTRA_VISIBILITIES)[number];
+
+/**
+ * Whether the user owns the mantra (via ContractUsersMantras)
+ */
+export const isMantraOwner = async (
+  mantraId: number,
+  userId: number,
+): Promise<boolean> =>
+  (await ContractUsersMantras.findOne({ where: { userId, mantraId } })) !==
+  null;
+
+/**
+ * Find a mantra the caller is allowed to see
+ * Public mantras are visible to everyone; private mantras only to their owner;
+ * unlisted mantras to their owner and to anyone with an active share token.
+ *
+ * @param mantraId - The mantra ID
+ * @param userId - The authenticated user, or null for anonymous requests
+ * @param shareToken - Token from a share link (?share=), if any
+ * @returns The mantra (throws MANTRA_NOT_FOUND, AUTH_FAILED or UNAUTHORIZED_ACCESS)
+ */
+export async function findAccessibleMantra(
+  mantraId: number,
+  userId: number | null,
+  shareToken: string | null = null,
+): Promise<InstanceType<typeof Mantra>> {
+  // Find mantra in database
+  const mantra = await Mantra.findByPk(mantraId);
+
+  if (!mantra) {
+    throw new AppError(ErrorCodes.MANTRA_NOT_FOUND, "Mantra not found", 404);
+  }
+
+  const visibility = mantra.get("visibility") as string;
+
+  // Authorization check for private mantras
+  if (visibility === "private") {
+    // Private mantras require authentication
+    if (userId === null) {
+      throw new AppError(
+        ErrorCodes.AUTH_FAILED,
+        "Authentication required to access private mantras",
+        401,
+      );
+    }
+
+    // Verify ownership via ContractUsersMantras
+    if (!(await isMantraOwner(mantraId, userId))) {
+      throw new AppError(
+        ErrorCodes.UNAUTHORIZED_ACCESS,
+        "You do not have permission to access this mantra",
+        403,
+      );
+    }
+  }
+
+  // Unlisted mantras need the owner or a share link
+  if (visibility === "unlisted") {
+    const hasAccess =
+      (userId !== null && (await isMantraOwner(mantraId, userId))) ||
+      (shareToken !== null && (await isValidShareToken(mantraId, shareToken)));
+
+    if (!hasAccess) {
+      throw new AppError(
+        ErrorCodes.UNAUTHORIZED_ACCESS,
+        "A valid share link is required to access this mantra",
+        403,
+      );
+    }
+  }
+
+  return mantra;
+}
+
+/**
+ * Find a mantra owned by the caller
+ *
+ * @returns The mantra (throws UNAUTHORIZED_ACCESS or MANTRA_NOT_FOUND)
+ */
+export async function findOwnedMantra(
+  mantraId: number,
+  userId: number,
+): Promise<InstanceType<typeof Mantra>> {
+  if (!(await isMantraOwner(mantraId, userId))) {
+    throw new AppError(
+      ErrorCodes.UNAUTHORIZED_ACCESS,
+      "You do not have permission to manage this mantra",
+      403,
+    );
+  }
+
+  const mantra = await Mantra.findByPk(mantraId);
+
+  if (!mantra) {
+    throw new AppError(ErrorCodes.MANTRA_NOT_FOUND, "Mantra not found", 404);
+  }
+
+  return mantra;
+}
+
+/**
+ * Full path of a mantra's (or a mantra version's) audio file
+ * filePath is the directory (PATH_MP3_OUTPUT when it is empty).
+ */
+export function getMantraFilePath(mantra: Model): string {
+  // Get file path components from database
+  const dbFilePath = mantra.get("filePath") as string | null; // Directory path with trailing slash
+  const filename = mantra.get("filename") as string | null;
+
+  if (!filename) {
+    throw new AppError(
+      ErrorCodes.INTERNAL_ERROR,
+      "Mantra file information not found",
+      500,
+    );
+  }
+
+  if (dbFilePath) {
+    // If DB has directory path, combine with filename
+    return path.join(dbFilePath, filename);
+  }
+
+  // Fallback to PATH_MP3_OUTPUT + filename
+  const outputPath = process.env.PATH_MP3_OUTPUT;
+  if (!outputPath) {
+    throw new AppError(
+      ErrorCodes.INTERNAL_ERROR,
+      "Mantra output path not configured",
+      500,
+    );
+  }
+
+  return path.join(outputPath, filename);
+}
@@ -0,0 +1,56 @@
+import fs from "fs";
+import { Mantra } from "mantrify01db";
+import { MantraRemix } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { getMantraFilePath } from "./mantraAccess";
+import { revokeShareTokens } from "./mantraShares";
+import { deleteMantraVersions } from "./mantraVersions";
+import { deleteMantraTags } from "./mantraTags";
+import logger from "./logger";
+
+/**
+ * Delete a mantra with its audio file, share links, versions, tags and remix
+ * attribution (remixes of the mantra keep theirs)
+ * A missing audio file is logged and skipped; a file that cannot be deleted
+ * throws INTERNAL_ERROR before the mantra is removed from the database.
+ *
+ * @param mantra - The mantra (permissions already verified)
+ */
+export async function deleteMantra(
+  mantra: InstanceType<typeof Mantra>,
+): Promise<void> {
+  const mantraId = mantra.get("id") as number;
+
+  // Delete MP3 file if it exists
+  if (mantra.get("filename")) {
+    const fullFilePath = getMantraFilePath(mantra);
+
+    if (fs.existsSync(fullFilePath)) {
+      try {
+        fs.unlinkSync(fullFilePath);
+        logger.info(`Deleted mantra file: ${fullFilePath}`);
+      } catch (error: any) {
+        logger.error(
+          `Failed to delete mantra file ${fullFilePath}: ${error.message}`,
+        );
+        throw new AppError(
+          ErrorCodes.INTERNAL_ERROR,
+          "Failed to delete mantra file",
+          500,
+          error.message,
+        );
+      }
+    } else {
+      logger.warn(
+        `Mantra file not found for deletion: ${fullFilePath}. Proceeding with database deletion.`,
+      );
+    }
+  }
+
+  // Delete mantra from database
+  await mantra.destroy();
+  await revokeShareTokens(mantraId);
+  await deleteMantraVersions(mantraId);
+  await deleteMantraTags(mantraId);
+  await MantraRemix.destroy({ where: { mantraId } });
+}
@@ -0,0 +1,565 @@
+import { Mantra } from "mantrify01db";
+import { MantraDraft, MantraRemix } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { isMantraOwner, MANTRA_VISIBILITIES } from "./mantraAccess";
+import { assertValidMantraArray } from "./mantraValidation";
+import { submitMantraJob } from "./mantraJobs";
+import { findCurrentMantraArray } from "./mantraVersions";
+import logger from "./logger";
+
+/**
+ * Draft as returned by the API (mantraArray parsed)
+ */
+export interface MantraDraftDetails {
+  id: number;
+  title: string;
+  description: string | null;
+  visibility: string;
+  mantraArray: unknown[];
+  remixedFromMantraId: number | null;
+  queueId: number | null;
+  mantraId: number | null;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Draft as listed by GET /mantras/drafts (elements are only counted)
+ */
+export type MantraDraftSummary = Omit<MantraDraftDetails, "mantraArray"> & {
+  elementCount: number;
+};
+
+/**
+ * Validated fields of a POST or PATCH /mantras/drafts request
+ */
+export interface MantraDraftFields {
+  title?: string;
+  description?: string | null;
+  visibility?: string;
+  mantraArray?: unknown[];
+}
+
+export function toDraftDetails(draft: MantraDraft): MantraDraftDetails {
+  return {
+    id: draft.id,
+    title: draft.title,
+    description: draft.description,
+    visibility: draft.visibility,
+    mantraArray: JSON.parse(draft.mantraArray),
+    remixedFromMantraId: draft.remixedFromMantraId,
+    queueId: draft.queueId,
+    mantraId: draft.mantraId,
+    version: draft.version,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+  };
+}
+
+// Element ids are compared as strings because URL parameters are strings
+const getElementId = (element: unknown): string =>
+  String((element as { id: unknown }).id);
+
+const versionConflict = (version: number, currentVersion: number): AppError =>
+  new AppError(
+    ErrorCodes.CONFLICT,
+    `Draft has changed since version ${version} (current version: ${currentVersion})`,
+    409,
+  );
+
+/**
+ * Check that an element can be stored in a draft: an object with an id that is
+ * not used by another element. Its content is validated on submission.
+ *
+ * @param element - The element
+ * @param otherIds - Ids of the draft's other elements
+ * @param field - Name used in the error message
+ */
+const assertDraftElement = (
+  element: unknown,
+  otherIds: Set<string>,
+  field: string,
+): void => {
+  if (!element || typeof element !== "object" || Array.isArray(element)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `${field} must be an object`,
+      400,
+    );
+  }
+
+  const { id } = element as { id?: unknown };
+
+  if (
+    !(typeof id === "number" && Number.isInteger(id)) &&
+    !(typeof id === "string" && id.trim() !== "")
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `${field} must have an id (integer or non-empty string)`,
+      400,
+    );
+  }
+
+  if (otherIds.has(String(id))) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `${field} duplicates the id ${id}`,
+      400,
+    );
+  }
+};
+
+/**
+ * Position of an element in a draft, found by its id
+ */
+const findElementIndex = (
+  mantraArray: unknown[],
+  elementId: string,
+): number => {
+  const index = mantraArray.findIndex(
+    (element) => getElementId(element) === elementId,
+  );
+
+  if (index === -1) {
+    throw new AppError(
+      ErrorCodes.NOT_FOUND,
+      `Element ${elementId} not found in this draft`,
+      404,
+    );
+  }
+
+  return index;
+};
+
+/**
+ * Validate a position within a draft's elements
+ *
+ * @param max - Highest allowed position
+ */
+const parsePosition = (value: unknown, max: number): number => {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 0 ||
+    (value as number) > max
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `position must be an integer between 0 and ${max}`,
+      400,
+    );
+  }
+
+  return value as number;
+};
+
+/**
+ * Validate the version a client expects a draft to be at
+ */
+export function parseDraftVersion(value: unknown): number {
+  const version = typeof value === "string" ? Number(value) : value;
+
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "version is required and must be a positive integer",
+      400,
+    );
+  }
+
+  return version as number;
+}
+
+/**
+ * Validate the fields of a draft create or update request
+ * Unknown fields are ignored.
+ *
+ * @param body - req.body
+ * @param requireTitle - true when creating a draft
+ */
+export function parseDraftFields(
+  body: Record<string, unknown>,
+  requireTitle: boolean,
+): MantraDraftFields {
+  const { title, description, visibility, mantraArray } = body;
+  const fields: MantraDraftFields = {};
+
+  if (title !== undefined || requireTitle) {
+    if (typeof title !== "string" || title.trim() === "") {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "Title must be a non-empty string",
+        400,
+      );
+    }
+    fields.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== "string") {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "Description must be a string or null",
+        400,
+      );
+    }
+    fields.description = description;
+  }
+
+  if (visibility !== undefined) {
+    if (!(MANTRA_VISIBILITIES as readonly unknown[]).includes(visibility)) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "Visibility must be 'public', 'unlisted' or 'private'",
+        400,
+      );
+    }
+    fields.visibility = visibility as string;
+  }
+
+  if (mantraArray !== undefined) {
+    if (!Array.isArray(mantraArray)) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "mantraArray must be an array",
+        400,
+      );
+    }
+
+    const ids = new Set<string>();
+    mantraArray.forEach((element, index) => {
+      assertDraftElement(element, ids, `mantraArray[${index}]`);
+      ids.add(getElementId(element));
+    });
+    fields.mantraArray = mantraArray;
+  }
+
+  return fields;
+}
+
+/**
+ * A mantra's element sequence (Mantras.mantraArray, stored as JSON)
+ *
+ * @returns null if the mantra has no elements
+ */
+const getMantraElements = (
+  mantra: InstanceType<typeof Mantra>,
+): unknown[] | null => {
+  let mantraArray = mantra.get("mantraArray");
+
+  if (typeof mantraArray === "string") {
+    try {
+      mantraArray = JSON.parse(mantraArray);
+    } catch {
+      return null;
+    }
+  }
+
+  return Array.isArray(mantraArray) && mantraArray.length > 0
+    ? mantraArray
+    : null;
+};
+
+/**
+ * Copy a mantra's elements, title and description into a new private draft
+ * Public mantras can be remixed by anyone, other mantras only by their owner.
+ *
+ * @param mantraId - The mantra to remix
+ * @param userId - The user who will own the draft
+ * @returns The new draft
+ */
+export async function remixMantra(
+  mantraId: number,
+  userId: number,
+): Promise<MantraDraft> {
+  const mantra = await Mantra.findByPk(mantraId);
+
+  if (!mantra) {
+    throw new AppError(ErrorCodes.MANTRA_NOT_FOUND, "Mantra not found", 404);
+  }
+
+  if (
+    mantra.get("visibility") !== "public" &&
+    !(await isMantraOwner(mantraId, userId))
+  ) {
+    throw new AppError(
+      ErrorCodes.UNAUTHORIZED_ACCESS,
+      "Only public mantras can be remixed",
+      403,
+    );
+  }
+
+  // Revised mantras take the elements of their current version
+  const mantraArray =
+    (await findCurrentMantraArray(mantra)) ?? getMantraElements(mantra);
+
+  if (!mantraArray) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "This mantra has no elements to remix",
+      409,
+    );
+  }
+
+  const draft = await MantraDraft.create({
+    userId,
+    title: mantra.get("title") as string,
+    description: (mantra.get("description") as string | null) ?? null,
+    visibility: "private",
+    mantraArray: JSON.stringify(mantraArray),
+    remixedFromMantraId: mantraId,
+  });
+
+  logger.info(
+    `User ${userId} remixed mantra ${mantraId} into draft ${draft.id}`,
+  );
+
+  return draft;
+}
+
+/**
+ * Create a draft
+ *
+ * @param userId - The draft's owner
+ * @param fields - Validated fields (title is required)
+ */
+export async function createDraft(
+  userId: number,
+  fields: MantraDraftFields,
+): Promise<MantraDraft> {
+  const draft = await MantraDraft.create({
+    userId,
+    title: fields.title,
+    description: fields.description ?? null,
+    visibility: fields.visibility ?? "private",
+    mantraArray: JSON.stringify(fields.mantraArray ?? []),
+  });
+
+  logger.info(`User ${userId} created draft ${draft.id}`);
+
+  return draft;
+}
+
+/**
+ * List a user's drafts, most recently edited first
+ */
+export async function listDrafts(
+  userId: number,
+): Promise<MantraDraftSummary[]> {
+  const drafts = await MantraDraft.findAll({
+    where: { userId },
+    order: [
+      ["updatedAt", "DESC"],
+      ["id", "DESC"],
+    ],
+  });
+
+  return drafts.map((draft) => {
+    const { mantraArray, ...summary } = toDraftDetails(draft);
+    return { ...summary, elementCount: mantraArray.length };
+  });
+}
+
+/**
+ * Find a draft owned by the caller
+ * Other users' drafts are reported as not found.
+ */
+export async function findOwnedDraft(
+  draftId: number,
+  userId: number,
+): Promise<MantraDraft> {
+  const draft = await MantraDraft.findOne({ where: { id: draftId, userId } });
+
+  if (!draft) {
+    throw new AppError(ErrorCodes.NOT_FOUND, "Draft not found", 404);
+  }
+
+  return draft;
+}
+
+/**
+ * Save changes to a draft if it is still at the expected version
+ * The version check and increment are a single conditional UPDATE, so of two
+ * concurrent edits of the same version only one succeeds.
+ *
+ * @param draft - The draft as read by the caller
+ * @param version - The version the client edited
+ * @param changes - Validated fields to change
+ * @returns The updated draft
+ */
+export async function updateDraft(
+  draft: MantraDraft,
+  version: number,
+  changes: MantraDraftFields,
+): Promise<MantraDraft> {
+  const { mantraArray, ...otherChanges } = changes;
+
+  const [updatedCount] = await MantraDraft.update(
+    {
+      ...otherChanges,
+      ...(mantraArray !== undefined && {
+        mantraArray: JSON.stringify(mantraArray),
+      }),
+      version: version + 1,
+    },
+    { where: { id: draft.id, version } },
+  );
+
+  await draft.reload();
+
+  if (updatedCount === 0) {
+    throw versionConflict(version, draft.version);
+  }
+
+  return draft;
+}
+
+/**
+ * Apply an element operation to the draft's elements at the expected version
+ */
+const updateDraftElements = async (
+  draft: MantraDraft,
+  version: number,
+  change: (mantraArray: unknown[]) => unknown[],
+): Promise<MantraDraft> => {
+  if (draft.version !== version) {
+    throw versionConflict(version, draft.version);
+  }
+
+  return updateDraft(draft, version, {
+    mantraArray: change(JSON.parse(draft.mantraArray)),
+  });
+};
+
+/**
+ * Insert an element into a draft
+ *
+ * @param position - Index of the new element (defaults to the end)
+ */
+export async function insertDraftElement(
+  draft: MantraDraft,
+  version: number,
+  element: unknown,
+  position: unknown,
+): Promise<MantraDraft> {
+  return updateDraftElements(draft, version, (mantraArray) => {
+    assertDraftElement(
+      element,
+      new Set(mantraArray.map(getElementId)),
+      "element",
+    );
+
+    const index =
+      position === undefined
+        ? mantraArray.length
+        : parsePosition(position, mantraArray.length);
+
+    const elements = [...mantraArray];
+
+    elements.splice(index, 0, element);
+    return elements;
+  });
+}
+
+/**
+ * Move an element of a draft to a new position
+ *
+ * @param position - Index of the element after the move
+ */
+export async function moveDraftElement(
+  draft: MantraDraft,
+  version: number,
+  elementId: string,
+  position: unknown,
+): Promise<MantraDraft> {
+  return updateDraftElements(draft, version, (mantraArray) => {
+    const index = findElementIndex(mantraArray, elementId);
+    const newIndex = parsePosition(position, mantraArray.length - 1);
+    const elements = [...mantraArray];
+    const [element] = elements.splice(index, 1);
+
+    elements.splice(newIndex, 0, element);
+    return elements;
+  });
+}
+
+/**
+ * Remove an element from a draft
+ */
+export async function deleteDraftElement(
+  draft: MantraDraft,
+  version: number,
+  elementId: string,
+): Promise<MantraDraft> {
+  return updateDraftElements(draft, version, (mantraArray) => {
+    const index = findElementIndex(mantraArray, elementId);
+    return mantraArray.filter((_, other) => other !== index);
+  });
+}
+
+/**
+ * Delete a draft if it is still at the expected version
+ */
+export async function deleteDraft(
+  draft: MantraDraft,
+  version: number,
+): Promise<void> {
+  const deletedCount = await MantraDraft.destroy({
+    where: { id: draft.id, version },
+  });
+
+  if (deletedCount === 0) {
+    await draft.reload();
+    throw versionConflict(version, draft.version);
+  }
+
+  logger.info(`Draft ${draft.id} deleted by user ${draft.userId}`);
+}
+
+/**
+ * Validate a draft's elements and submit them as a mantra creation job
+ * The draft is kept; its title, description and visibility are applied to the
+ * mantra once the job completes. A draft can be submitted again.
+ *
+ * @param draft - The draft to submit
+ * @param version - The version the client expects to submit, if given
+ * @returns The queue ID of the new job
+ */
+export async function submitDraft(
+  draft: MantraDraft,
+  version: number | null,
+): Promise<number> {
+  if (version !== null && draft.version !== version) {
+    throw versionConflict(version, draft.version);
+  }
+
+  const mantraArray = JSON.parse(draft.mantraArray);
+  await assertValidMantraArray(mantraArray);
+
+  const queueId = await submitMantraJob(draft.userId, mantraArray);
+  await draft.update({ queueId, mantraId: null });
+
+  logger.info(`Draft ${draft.id} submitted as mantra job ${queueId}`);
+
+  return queueId;
+}
+
+/**
+ * Number of mantras created from remixes of a mantra
+ */
+export async function countRemixes(mantraId: number): Promise<number> {
+  return MantraRemix.count({ where: { remixedFromMantraId: mantraId } });
+}
+
+/**
+ * The mantra a mantra was remixed from
+ *
+ * @returns null if the mantra was not created from a remix
+ */
+export async function findRemixedFromMantraId(
+  mantraId: number,
+): Promise<number | null> {
+  const remix = await MantraRemix.findOne({ where: { mantraId } });
+  return remix?.remixedFromMantraId ?? null;
+}
@@ -0,0 +1,860 @@
+import path from "path";
+import { Op } from "sequelize";
+import {
+  Mantra,
+  Queue,
+  User,
+  ContractUsersMantras,
+  ContractMantrasElevenLabsFiles,
+  ContractMantrasSoundFiles,
+  sequelize,
+} from "mantrify01db";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { userHasPrivilegedPermission, Permission } from "./permissions";
+import { assertValidMantraArray, MantraElement } from "./mantraValidation";
+import {
+  MantraJobRequest,
+  MantraDraft,
+  MantraVersion,
+  MantraRemix,
+} from "../models";
+import { sendMantraReadyEmail, sendMantraFailedEmail } from "./emailService";
+import {
+  postToQueuer,
+  assertQueuerAvailable,
+  QueuerResponse,
+} from "./queuerClient";
+import { estimateMantraUsage, assertWithinQuota } from "./usageQuotas";
+import logger from "./logger";
+
+// Statuses written to Queue.status by Mantrify01Queuer
+export const QUEUE_STATUSES = [
+  "queued",
+  "started",
+  "elevenlabs",
+  "concatenator",
+  "done",
+] as const;
+
+export type QueueStatus = (typeof QUEUE_STATUSES)[number];
+
+// "failed" is reported by the API when the queuer reports an error after the job was accepted;
+// "cancelled" when the owner cancelled the job while it was queued
+export type JobStatus = QueueStatus | "failed" | "cancelled";
+
+// How long POST /mantras/create waits for the queuer to register the job
+const QUEUER_ACCEPT_TIMEOUT_MS = parseInt(
+  process.env.QUEUER_ACCEPT_TIMEOUT_MS || "10000",
+  10,
+);
+const QUEUE_POLL_INTERVAL_MS = 250;
+
+// Job state is kept in memory for a day; Queue.status remains available after that
+const JOB_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// API-side state of a job (the Queue table only holds the status)
+// Updated from the queuer's response and from queuer webhook events.
+interface JobState {
+  status: JobStatus | null;
+  mantraId: number | null;
+  error: string | null;
+  updatedAt: number;
+}
+
+export interface MantraJob {
+  queueId: number;
+  userId: number;
+  status: JobStatus;
+  mantraId: number | null;
+  error: string | null;
+  retryOfQueueId: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobStates = new Map<number, JobState>();
+
+// Submission in progress per user ID
+// A user's jobs are submitted one at a time so quota checks see the user's previous submission
+// and each new Queue row can be attributed to its request.
+const userSubmissions = new Map<number, Promise<number>>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isFinished = (status: JobStatus | null | undefined): boolean =>
+  status === "done" || status === "failed" || status === "cancelled";
+
+// Position of a status in the job's lifecycle ("failed" and "cancelled" are final)
+const statusRank = (status: JobStatus): number =>
+  status === "failed" || status === "cancelled"
+    ? QUEUE_STATUSES.length
+    : QUEUE_STATUSES.indexOf(status);
+
+/**
+ * Merge changes into a job's in-memory state
+ *
+ * @returns The state before the change (undefined if the job had none)
+ */
+const updateJobState = (
+  queueId: number,
+  changes: Partial<Omit<JobState, "updatedAt">>,
+): JobState | undefined => {
+  const now = Date.now();
+
+  for (const [id, existing] of jobStates) {
+    if (now - existing.updatedAt > JOB_STATE_TTL_MS) {
+      jobStates.delete(id);
+    }
+  }
+
+  const previous = jobStates.get(queueId);
+
+  jobStates.set(queueId, {
+    status: null,
+    mantraId: null,
+    error: null,
+    ...previous,
+    ...changes,
+    updatedAt: now,
+  });
+
+  return previous;
+};
+
+/**
+ * Email the job's owner that it finished (failures are logged, not thrown)
+ */
+async function notifyJobFinished(
+  queueId: number,
+  userId: number,
+  succeeded: boolean,
+): Promise<void> {
+  try {
+    const user = await User.findByPk(userId);
+
+    if (!user) {
+      return;
+    }
+
+    const email = user.get("email") as string;
+
+    if (succeeded) {
+      await sendMantraReadyEmail(email);
+    } else {
+      await sendMantraFailedEmail(email);
+    }
+  } catch (error: any) {
+    logger.error(
+      `Failed to notify user ${userId} about job ${queueId}: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Move the audio created by a mantra version's job onto the versioned mantra
+ * The queuer creates a new Mantras row for every job; for a version, its file,
+ * elements, ElevenLabs files and sound file links are taken over by the existing
+ * mantra, which keeps its ID, counters and favorites, and the new row and its
+ * ownership are deleted.
+ *
+ * @param queueId - The completed job
+ * @param mantraId - The mantra the queuer created
+ * @returns The mantra the job's audio belongs to
+ */
+async function applyVersionToMantra(
+  queueId: number,
+  mantraId: number,
+): Promise<number> {
+  const version = await MantraVersion.findOne({ where: { queueId } });
+
+  if (!version || version.mantraId === mantraId) {
+    return mantraId;
+  }
+
+  // Already applied by an earlier report of the same result
+  if (version.filename !== null) {
+    return version.mantraId;
+  }
+
+  const createdMantra = await Mantra.findByPk(mantraId);
+
+  if (!createdMantra) {
+    return mantraId;
+  }
+
+  const filename = createdMantra.get("filename") as string | null;
+  const filePath = (createdMantra.get("filePath") as string | null) || null;
+  const mantraChanges: Record<string, unknown> = { filename, filePath };
+
+  if (version.mantraArray !== null) {
+    mantraChanges.mantraArray = JSON.parse(version.mantraArray);
+  }
+
+  const transaction = await sequelize.transaction();
+
+  try {
+    await version.update({ filename, filePath }, { transaction });
+    await Mantra.update(mantraChanges, {
+      where: { id: version.mantraId },
+      transaction,
+    });
+    await ContractMantrasElevenLabsFiles.update(
+      { mantraId: version.mantraId },
+      { where: { mantraId }, transaction },
+    );
+
+    // Sound files already linked to the versioned mantra are not linked twice
+    const linkedSoundFiles = await ContractMantrasSoundFiles.findAll({
+      where: { mantraId: version.mantraId },
+      attributes: ["soundFilesId"],
+      transaction,
+    });
+    const linkedSoundFileIds = linkedSoundFiles.map(
+      (contract) => contract.get("soundFilesId") as number,
+    );
+    await ContractMantrasSoundFiles.destroy({
+      where: { mantraId, soundFilesId: { [Op.in]: linkedSoundFileIds } },
+      transaction,
+    });
+    await ContractMantrasSoundFiles.update(
+      { mantraId: version.mantraId },
+      { where: { mantraId }, transaction },
+    );
+
+    await ContractUsersMantras.destroy({ where: { mantraId }, transaction });
+    await createdMantra.destroy({ transaction });
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  logger.info(
+    `Mantra ${version.mantraId} switched to version ${version.version} (job ${queueId}, temporary mantra ${mantraId} removed)`,
+  );
+
+  return version.mantraId;
+}
+
+/**
+ * Store the mantra a job produced with its request, so it is still known once
+ * the in-memory state is gone (failures are logged, not thrown)
+ */
+async function storeJobMantraId(
+  queueId: number,
+  mantraId: number,
+): Promise<void> {
+  try {
+    await MantraJobRequest.update({ mantraId }, { where: { queueId } });
+  } catch (error: any) {
+    logger.error(
+      `Failed to store mantra ${mantraId} for job ${queueId}: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Switch a mantra version to its job's audio when the job completed before the
+ * version was linked to it (failures are logged, not thrown)
+ *
+ * @param queueId - The job just linked to a version
+ */
+export async function applyCompletedJobToVersion(
+  queueId: number,
+): Promise<void> {
+  const state = jobStates.get(queueId);
+
+  if (state?.status !== "done" || state.mantraId === null) {
+    return;
+  }
+
+  try {
+    const mantraId = await applyVersionToMantra(queueId, state.mantraId);
+    updateJobState(queueId, { mantraId });
+    await storeJobMantraId(queueId, mantraId);
+  } catch (error: any) {
+    logger.error(
+      `Failed to apply the result of job ${queueId} to a mantra version: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Copy the title, description, visibility and remix attribution of the draft a
+ * job was submitted from to the mantra the job created (failures are logged, not thrown)
+ */
+async function applyDraftToMantra(
+  queueId: number,
+  mantraId: number,
+): Promise<void> {
+  try {
+    const draft = await MantraDraft.findOne({ where: { queueId } });
+
+    if (!draft) {
+      return;
+    }
+
+    await Mantra.update(
+      {
+        title: draft.title,
+        description: draft.description,
+        visibility: draft.visibility,
+      },
+      { where: { id: mantraId } },
+    );
+    await draft.update({ mantraId });
+
+    // The attribution stays with the mantra when the draft changes or is deleted
+    if (draft.remixedFromMantraId !== null) {
+      await MantraRemix.findOrCreate({
+        where: { mantraId },
+        defaults: { remixedFromMantraId: draft.remixedFromMantraId },
+      });
+    }
+
+    logger.info(`Draft ${draft.id} applied to mantra ${mantraId}`);
+  } catch (error: any) {
+    logger.error(
+      `Failed to apply the draft of job ${queueId} to mantra ${mantraId}: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Record a status reported by the queuer before the job finished
+ *
+ * @param queueId - The job
+ * @param status - Status reported by the queuer
+ */
+export function recordJobStatus(queueId: number, status: QueueStatus): void {
+  const current = jobStates.get(queueId);
+
+  // Ignore late status events for finished jobs
+  if (isFinished(current?.status)) {
+    return;
+  }
+
+  updateJobState(queueId, { status });
+  logger.info(`Mantra job ${queueId} status: ${status}`);
+}
+
+/**
+ * Record a finished job and notify its owner the first time it finishes
+ * The created mantra is taken from mantraId, or resolved from the queuer's output file.
+ *
+ * @param queueId - The job
+ * @param userId - The job's owner
+ * @param result - Result reported by the queuer
+ */
+export async function recordJobCompletion(
+  queueId: number,
+  userId: number,
+  result: { finalFilePath?: string; mantraId?: number },
+): Promise<void> {
+  let mantraId = result.mantraId ?? null;
+
+  if (mantraId === null && result.finalFilePath) {
+    const mantra = await Mantra.findOne({
+      where: { filename: path.basename(result.finalFilePath) },
+    });
+    mantraId = mantra ? (mantra.get("id") as number) : null;
+  }
+
+  const previous = jobStates.get(queueId);
+
+  if (previous?.status === "failed" || previous?.status === "cancelled") {
+    return;
+  }
+
+  if (mantraId !== null) {
+    try {
+      mantraId = await applyVersionToMantra(queueId, mantraId);
+    } catch (error: any) {
+      logger.error(
+        `Failed to apply the result of job ${queueId} to a mantra version: ${error.message}`,
+      );
+    }
+  }
+
+  updateJobState(queueId, {
+    status: "done",
+    mantraId: mantraId ?? previous?.mantraId ?? null,
+    error: null,
+  });
+
+  if (mantraId !== null) {
+    await storeJobMantraId(queueId, mantraId);
+  }
+
+  if (previous?.status === "done") {
+    return;
+  }
+
+  logger.info(
+    `Mantra job ${queueId} completed: mantraId=${mantraId}, file=${result.finalFilePath}`,
+  );
+
+  if (mantraId !== null) {
+    await applyDraftToMantra(queueId, mantraId);
+  }
+
+  await notifyJobFinished(queueId, userId, true);
+}
+
+/**
+ * Record a job that failed after it was accepted and notify its owner
+ *
+ * @param queueId - The job
+ * @param userId - The job's owner
+ * @param message - Error reported by the queuer
+ */
+export async function recordJobFailure(
+  queueId: number,
+  userId: number,
+  message: string,
+): Promise<void> {
+  const previous = jobStates.get(queueId);
+
+  if (isFinished(previous?.status)) {
+    return;
+  }
+
+  updateJobState(queueId, { status: "failed", error: message });
+
+  // Persist the failure so it survives restarts and the in-memory state's expiry
+  const [failedCount] = await MantraJobRequest.update(
+    { failedAt: new Date(), error: message },
+    { where: { queueId, failedAt: null, cancelledAt: null } },
+  );
+
+  // Already failed or cancelled before (e.g. reported again after a restart)
+  if (
+    failedCount === 0 &&
+    (await MantraJobRequest.findOne({ where: { queueId } }))
+  ) {
+    return;
+  }
+
+  logger.error(`Mantra job ${queueId} failed: ${message}`);
+  await notifyJobFinished(queueId, userId, false);
+}
+
+/**
+ * Hand a mantra to the queuer and wait only until the job has a queue ID
+ * Mantrify01Queuer answers only once the mantra is generated, so until then the
+ * job is the user's first new Queue row; a queuer that answers right away with
+ * the queue ID is used as is. The queuer's final answer is recorded as the job's
+ * result, so jobs also finish without webhook events.
+ *
+ * @returns The job's queue ID
+ */
+async function acceptMantraJob(
+  userId: number,
+  mantraArray: MantraElement[],
+): Promise<number> {
+  // Fail fast while the queuer is known to be down
+  assertQueuerAvailable();
+
+  const lastQueue = await Queue.findOne({
+    where: { userId },
+    order: [["id", "DESC"]],
+  });
+  const lastQueueId = lastQueue ? (lastQueue.get("id") as number) : 0;
+
+  const submission: {
+    queueId: number | null;
+    answered: boolean;
+    response: QueuerResponse | null;
+    error: AppError | null;
+  } = { queueId: null, answered: false, response: null, error: null };
+
+  // An answer without a file only registered the job; webhook events report the rest
+  const recordAnswer = async (queueId: number): Promise<void> => {
+    if (submission.error) {
+      await recordJobFailure(queueId, userId, submission.error.message);
+    } else if (submission.response?.finalFilePath) {
+      await recordJobCompletion(queueId, userId, {
+        finalFilePath: submission.response.finalFilePath,
+      });
+    }
+  };
+
+  postToQueuer("/mantras/new", { userId, mantraArray })
+    .then(
+      (responseData) => {
+        submission.response = responseData;
+
+        if (
+          submission.queueId === null &&
+          Number.isInteger(responseData.queueId)
+        ) {
+          submission.queueId = responseData.queueId!;
+        }
+      },
+      (error: AppError) => {
+        submission.error = error;
+      },
+    )
+    .then(async () => {
+      submission.answered = true;
+
+      // Otherwise recorded once the Queue row is found
+      if (submission.queueId !== null) {
+        await recordAnswer(submission.queueId);
+      }
+    })
+    .catch((error: any) => {
+      logger.error(
+        `Failed to record mantra job result for user ${userId}: ${error.message}`,
+      );
+    });
+
+  const deadline = Date.now() + QUEUER_ACCEPT_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (submission.queueId !== null) {
+      return submission.queueId;
+    }
+
+    const queue = await Queue.findOne({
+      where: { userId, id: { [Op.gt]: lastQueueId } },
+      order: [["id", "ASC"]],
+    });
+
+    if (submission.queueId !== null) {
+      return submission.queueId;
+    }
+
+    if (queue) {
+      submission.queueId = queue.get("id") as number;
+
+      if (submission.answered) {
+        await recordAnswer(submission.queueId);
+      }
+
+      return submission.queueId;
+    }
+
+    if (submission.error) {
+      throw submission.error;
+    }
+
+    await sleep(QUEUE_POLL_INTERVAL_MS);
+  }
+
+  logger.error(
+    `Queuer did not register a job for user ${userId} within ${QUEUER_ACCEPT_TIMEOUT_MS}ms`,
+  );
+  throw new AppError(
+    ErrorCodes.QUEUER_ERROR,
+    "Queuer service did not accept the mantra in time",
+    504,
+  );
+}
+
+/**
+ * Check the user's quotas, hand the mantra to the queuer and store the request
+ * The stored request is what later quota checks count, so this runs inside the
+ * user's serialized submission.
+ */
+async function runMantraSubmission(
+  userId: number,
+  mantraArray: MantraElement[],
+  retryOfQueueId: number | null,
+): Promise<number> {
+  const usage = estimateMantraUsage(mantraArray);
+  await assertWithinQuota(userId, usage);
+
+  const queueId = await acceptMantraJob(userId, mantraArray);
+
+  // A result reported before the request was stored is only in memory so far
+  const state = jobStates.get(queueId);
+  const failed = state?.status === "failed";
+  const done = state?.status === "done";
+
+  // The job is already queued, so a failure here only prevents a later retry
+  // (and leaves the job out of the user's usage)
+  try {
+    await MantraJobRequest.create({
+      queueId,
+      userId,
+      mantraArray: JSON.stringify(mantraArray),
+      textCharacters: usage.textCharacters,
+      audioSeconds: usage.audioSeconds,
+      retryOfQueueId,
+      failedAt: failed ? new Date(state.updatedAt) : null,
+      error: failed ? state.error : null,
+      mantraId: done ? state.mantraId : null,
+    });
+  } catch (error: any) {
+    logger.error(
+      `Failed to store the request for mantra job ${queueId}: ${error.message}`,
+    );
+  }
+
+  return queueId;
+}
+
+/**
+ * Submit a mantra for asynchronous creation
+ * Throws QUOTA_EXCEEDED before calling the queuer if the user is over a quota.
+ * The mantraArray is stored with the new queue ID so the job can be retried.
+ *
+ * @param userId - The user who owns the new job
+ * @param mantraArray - Validated mantra elements
+ * @param retryOfQueueId - The failed job this submission retries, if any
+ * @returns The queue ID of the new job
+ */
+export async function submitMantraJob(
+  userId: number,
+  mantraArray: MantraElement[],
+  retryOfQueueId: number | null = null,
+): Promise<number> {
+  const previous = userSubmissions.get(userId) || Promise.resolve(0);
+  const submission = previous
+    .catch(() => 0)
+    .then(() => runMantraSubmission(userId, mantraArray, retryOfQueueId));
+
+  userSubmissions.set(userId, submission);
+
+  try {
+    return await submission;
+  } finally {
+    if (userSubmissions.get(userId) === submission) {
+      userSubmissions.delete(userId);
+    }
+  }
+}
+
+/**
+ * Combine a Queue row with the API's state of the job
+ * Whichever source is further along in the job's lifecycle wins; a failure or
+ * cancellation stored with the request always wins.
+ */
+function toMantraJob(
+  queue: InstanceType<typeof Queue>,
+  request: MantraJobRequest | null,
+): MantraJob {
+  const queueId = queue.get("id") as number;
+  const state = jobStates.get(queueId);
+  const queueStatus = queue.get("status") as QueueStatus;
+  const queueUpdatedAt = queue.get("updatedAt") as Date;
+
+  let status: JobStatus =
+    state?.status && statusRank(state.status) > statusRank(queueStatus)
+      ? state.status
+      : queueStatus;
+
+  if (request?.failedAt) {
+    status = "failed";
+  }
+
+  if (request?.cancelledAt) {
+    status = "cancelled";
+  }
+
+  return {
+    queueId,
+    userId: queue.get("userId") as number,
+    status,
+    mantraId: state?.mantraId ?? request?.mantraId ?? null,
+    error: status === "failed" ? (request?.error ?? state?.error ?? null) : null,
+    retryOfQueueId: request?.retryOfQueueId ?? null,
+    createdAt: queue.get("createdAt") as Date,
+    updatedAt:
+      state && state.updatedAt > queueUpdatedAt.getTime()
+        ? new Date(state.updatedAt)
+        : queueUpdatedAt,
+  };
+}
+
+/**
+ * Get a job without any ownership check
+ *
+ * @returns null if the Queue row does not exist
+ */
+export async function findMantraJob(
+  queueId: number,
+): Promise<MantraJob | null> {
+  const queue = await Queue.findByPk(queueId);
+
+  if (!queue) {
+    return null;
+  }
+
+  const request = await MantraJobRequest.findOne({ where: { queueId } });
+  return toMantraJob(queue, request);
+}
+
+/**
+ * Get a job, verifying the caller owns it or holds a permission over all jobs
+ *
+ * @param queueId - Queue ID returned by POST /mantras/create
+ * @param userId - The requesting user
+ * @param permission - Lets non-owners through (queue:read to view, queue:manage to change)
+ */
+export async function getMantraJob(
+  queueId: number,
+  userId: number,
+  permission: Permission = "queue:read",
+): Promise<MantraJob> {
+  const job = await findMantraJob(queueId);
+
+  if (!job) {
+    throw new AppError(ErrorCodes.NOT_FOUND, "Job not found", 404);
+  }
+
+  if (
+    job.userId !== userId &&
+    !(await userHasPrivilegedPermission(userId, permission))
+  ) {
+    throw new AppError(
+      ErrorCodes.UNAUTHORIZED_ACCESS,
+      "You do not have permission to access this job",
+      403,
+    );
+  }
+
+  return job;
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export async function listMantraJobs(userId: number): Promise<MantraJob[]> {
+  const queues = await Queue.findAll({
+    where: { userId },
+    order: [["id", "DESC"]],
+  });
+
+  const requests = await MantraJobRequest.findAll({ where: { userId } });
+  const requestsByQueueId = new Map(
+    requests.map((request) => [request.queueId, request]),
+  );
+
+  return queues.map((queue) =>
+    toMantraJob(queue, requestsByQueueId.get(queue.get("id") as number) || null),
+  );
+}
+
+/**
+ * Cancel a job that is still queued, forwarding the cancellation to the queuer
+ *
+ * @param queueId - The job to cancel
+ * @param userId - The requesting user (owner, or holder of queue:manage)
+ * @returns The cancelled job
+ */
+export async function cancelMantraJob(
+  queueId: number,
+  userId: number,
+): Promise<MantraJob> {
+  const job = await getMantraJob(queueId, userId, "queue:manage");
+
+  if (job.status !== "queued") {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Only queued jobs can be cancelled (current status: ${job.status})`,
+      409,
+    );
+  }
+
+  await postToQueuer("/mantras/cancel", { queueId, userId: job.userId });
+
+  const cancelledAt = new Date();
+  await MantraJobRequest.update({ cancelledAt }, { where: { queueId } });
+  updateJobState(queueId, { status: "cancelled" });
+
+  logger.info(`Mantra job ${queueId} cancelled by user ${userId}`);
+
+  return { ...job, status: "cancelled", updatedAt: cancelledAt };
+}
+
+/**
+ * Resubmit a failed job's mantraArray as a new job for the same owner
+ *
+ * @param queueId - The failed job
+ * @param userId - The requesting user (owner, or holder of queue:manage)
+ * @returns The queue ID of the new job
+ */
+export async function retryMantraJob(
+  queueId: number,
+  userId: number,
+): Promise<number> {
+  const job = await getMantraJob(queueId, userId, "queue:manage");
+
+  if (job.status !== "failed") {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Only failed jobs can be retried (current status: ${job.status})`,
+      409,
+    );
+  }
+
+  const request = await MantraJobRequest.findOne({ where: { queueId } });
+
+  if (!request) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "This job cannot be retried because its original request was not recorded",
+      409,
+    );
+  }
+
+  // Reserve the failed job so concurrent retries cannot both be submitted
+  const [reserved] = await MantraJobRequest.update(
+    { retriedAt: new Date() },
+    { where: { queueId, retriedAt: null } },
+  );
+
+  // Jobs retried before retriedAt was recorded are only linked by their retry
+  const existingRetry = await MantraJobRequest.findOne({
+    where: { retryOfQueueId: queueId },
+  });
+
+  if (existingRetry) {
+    if (reserved > 0) {
+      await MantraJobRequest.update(
+        { retriedAt: existingRetry.createdAt },
+        { where: { queueId } },
+      );
+    }
+
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `This job was already retried as job ${existingRetry.queueId}`,
+      409,
+    );
+  }
+
+  if (reserved === 0) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "This job is already being retried",
+      409,
+    );
+  }
+
+  let newQueueId: number;
+
+  try {
+    // Sound files may have been deleted since the original submission
+    const mantraArray = JSON.parse(request.mantraArray);
+    await assertValidMantraArray(mantraArray);
+
+    newQueueId = await submitMantraJob(job.userId, mantraArray, queueId);
+  } catch (error) {
+    await MantraJobRequest.update({ retriedAt: null }, { where: { queueId } });
+    throw error;
+  }
+
+  // A draft or mantra version submitted as the failed job now follows the retry
+  await MantraDraft.update({ queueId: newQueueId }, { where: { queueId } });
+  await MantraVersion.update({ queueId: newQueueId }, { where: { queueId } });
+
+  logger.info(
+    `Mantra job ${queueId} retried by user ${userId} as job ${newQueueId}`,
+  );
+
+  return newQueueId;
+}
@@ -0,0 +1,454 @@
+import {
+  Mantra,
+  ContractUsersMantras,
+  ContractUserMantraListen,
+  sequelize,
+} from "mantrify01db";
+import { Op, Model, ModelStatic, WhereOptions, OrderItem } from "sequelize";
+import {
+  MantraTag,
+  MantraCategory,
+  ContractMantrasCategories,
+} from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { normalizeTag, getMantraTaggings } from "./mantraTags";
+
+export const MANTRA_SORTS = ["newest", "listenCount", "favoriteCount"] as const;
+export type MantraSort = (typeof MANTRA_SORTS)[number];
+
+export const MANTRA_LIST_VISIBILITIES = ["public", "unlisted", "private"] as const;
+export type MantraListVisibility = (typeof MANTRA_LIST_VISIBILITIES)[number];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Options for GET /mantras/all, parsed from the query string
+ * owner is a user ID (owner=me is resolved to the caller's ID). tag is
+ * normalized like the tags of PATCH /mantras/update/:id; category is a category slug.
+ */
+export interface MantraListOptions {
+  userId: number | null;
+  page: number;
+  limit: number;
+  q: string | null;
+  owner: number | null;
+  visibility: MantraListVisibility | null;
+  favorites: boolean;
+  tag: string | null;
+  category: string | null;
+  sort: MantraSort;
+}
+
+export interface MantraListPage {
+  mantras: Array<Record<string, any>>;
+  total: number;
+}
+
+const parsePositiveInteger = (
+  value: unknown,
+  name: string,
+  fallback: number,
+): number => {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = typeof value === "string" ? Number(value) : NaN;
+
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `${name} must be a positive integer`,
+      400,
+    );
+  }
+
+  return parsed;
+};
+
+/**
+ * Validate the query string of GET /mantras/all
+ *
+ * @param query - req.query
+ * @param userId - The authenticated user, or null for anonymous requests
+ */
+export function parseMantraListQuery(
+  query: Record<string, unknown>,
+  userId: number | null,
+): MantraListOptions {
+  const page = parsePositiveInteger(query.page, "page", 1);
+  const limit = parsePositiveInteger(query.limit, "limit", DEFAULT_PAGE_SIZE);
+
+  if (limit > MAX_PAGE_SIZE) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `limit must be at most ${MAX_PAGE_SIZE}`,
+      400,
+    );
+  }
+
+  // Text search
+  let q: string | null = null;
+
+  if (query.q !== undefined) {
+    if (typeof query.q !== "string" || query.q.length > MAX_QUERY_LENGTH) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `q must be a string of at most ${MAX_QUERY_LENGTH} characters`,
+        400,
+      );
+    }
+
+    q = query.q.trim() || null;
+  }
+
+  // Owner filter (a user ID or "me")
+  let owner: number | null = null;
+
+  if (query.owner !== undefined) {
+    if (query.owner === "me") {
+      if (userId === null) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Authentication required to filter by owner=me",
+          401,
+        );
+      }
+      owner = userId;
+    } else {
+      owner = typeof query.owner === "string" ? Number(query.owner) : NaN;
+
+      if (!Number.isInteger(owner) || owner < 1) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          'owner must be a user ID or "me"',
+          400,
+        );
+      }
+    }
+  }
+
+  // Visibility filter
+  let visibility: MantraListVisibility | null = null;
+
+  if (query.visibility !== undefined) {
+    if (
+      !(MANTRA_LIST_VISIBILITIES as readonly unknown[]).includes(
+        query.visibility,
+      )
+    ) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `visibility must be one of: ${MANTRA_LIST_VISIBILITIES.join(", ")}`,
+        400,
+      );
+    }
+    visibility = query.visibility as MantraListVisibility;
+  }
+
+  // Favorites filter
+  if (
+    query.favorites !== undefined &&
+    query.favorites !== "true" &&
+    query.favorites !== "false"
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "favorites must be true or false",
+      400,
+    );
+  }
+
+  const favorites = query.favorites === "true";
+
+  if (favorites && userId === null) {
+    throw new AppError(
+      ErrorCodes.AUTH_FAILED,
+      "Authentication required to filter by favorites",
+      401,
+    );
+  }
+
+  // Tag filter
+  let tag: string | null = null;
+
+  if (query.tag !== undefined) {
+    tag = normalizeTag(query.tag);
+
+    if (tag === null) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "tag must be letters, digits or hyphens",
+        400,
+      );
+    }
+  }
+
+  // Category filter (a category slug)
+  let category: string | null = null;
+
+  if (query.category !== undefined) {
+    if (typeof query.category !== "string" || query.category === "") {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        "category must be a category slug",
+        400,
+      );
+    }
+    category = query.category;
+  }
+
+  // Sort order
+  let sort: MantraSort = "newest";
+
+  if (query.sort !== undefined) {
+    if (!(MANTRA_SORTS as readonly unknown[]).includes(query.sort)) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `sort must be one of: ${MANTRA_SORTS.join(", ")}`,
+        400,
+      );
+    }
+    sort = query.sort as MantraSort;
+  }
+
+  return {
+    userId,
+    page,
+    limit,
+    q,
+    owner,
+    visibility,
+    favorites,
+    tag,
+    category,
+    sort,
+  };
+}
+
+/**
+ * Condition matching the mantras selected from a table with a mantraId column
+ * The subquery runs in the database, so the matching IDs are never loaded.
+ *
+ * @param model - Table to select mantraId from
+ * @param filters - Column values the selected rows must have
+ */
+const mantraIdIn = (
+  model: ModelStatic<Model>,
+  filters: Record<string, string | number>,
+): WhereOptions => {
+  const queryInterface = sequelize.getQueryInterface();
+  const conditions = Object.entries(filters).map(
+    ([column, value]) =>
+      `${queryInterface.quoteIdentifier(column)} = ${sequelize.escape(value)}`,
+  );
+
+  return {
+    id: {
+      [Op.in]: sequelize.literal(
+        `(SELECT ${queryInterface.quoteIdentifier("mantraId")}` +
+          ` FROM ${queryInterface.quoteIdentifier(model.getTableName() as string)}` +
+          ` WHERE ${conditions.join(" AND ")})`,
+      ),
+    },
+  };
+};
+
+/**
+ * Condition matching a column that contains text
+ * %, _ and \ in the text are escaped so they match literally.
+ */
+const containsText = (column: string, text: string): WhereOptions => {
+  const pattern = `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+
+  return sequelize.where(
+    sequelize.col(column),
+    Op.like,
+    sequelize.literal(`${sequelize.escape(pattern)} ESCAPE '\\'`),
+  );
+};
+
+/**
+ * One page of the mantras visible to a user
+ * Anonymous users see public mantras; authenticated users also see their own
+ * private and unlisted mantras. Filtering, sorting and paging are done by the database.
+ *
+ * @param options - Parsed query (see parseMantraListQuery)
+ * @returns The page's mantras with listenCount, favoriteCount, ownerUserId, tags and categories, and the total matching count
+ */
+export async function listMantras(
+  options: MantraListOptions,
+): Promise<MantraListPage> {
+  const {
+    userId,
+    page,
+    limit,
+    q,
+    owner,
+    visibility,
+    favorites,
+    tag,
+    category,
+    sort,
+  } = options;
+  const conditions: WhereOptions[] = [];
+
+  // Listed mantras (unlisted mantras are only listed for their owner)
+  if (userId !== null) {
+    conditions.push({
+      [Op.or]: [
+        { visibility: "public" },
+        mantraIdIn(ContractUsersMantras, { userId }),
+      ],
+    });
+  } else {
+    conditions.push({ visibility: "public" });
+  }
+
+  if (q) {
+    conditions.push({
+      [Op.or]: [containsText("title", q), containsText("description", q)],
+    });
+  }
+
+  if (owner !== null) {
+    conditions.push(mantraIdIn(ContractUsersMantras, { userId: owner }));
+  }
+
+  if (visibility) {
+    conditions.push({ visibility });
+  }
+
+  if (favorites && userId !== null) {
+    conditions.push(
+      mantraIdIn(ContractUserMantraListen, { userId, favorite: 1 }),
+    );
+  }
+
+  if (tag) {
+    conditions.push(mantraIdIn(MantraTag, { tag }));
+  }
+
+  // An unknown category matches no mantras
+  if (category) {
+    const categoryRecord = await MantraCategory.findOne({
+      where: { slug: category },
+    });
+    conditions.push(
+      categoryRecord
+        ? mantraIdIn(ContractMantrasCategories, {
+            categoryId: categoryRecord.id,
+          })
+        : { id: { [Op.in]: [] } },
+    );
+  }
+
+  const where = { [Op.and]: conditions };
+
+  // favoriteCount is computed per mantra so it can be sorted on
+  const queryInterface = sequelize.getQueryInterface();
+  const favoriteCountSql =
+    `(SELECT COUNT(*) FROM ${queryInterface.quoteIdentifier(ContractUserMantraListen.getTableName() as string)} AS favorites` +
+    ` WHERE favorites.mantraId = ${queryInterface.quoteIdentifier(Mantra.name)}.id AND favorites.favorite = 1)`;
+
+  const order: OrderItem[] =
+    sort === "listenCount"
+      ? [["listenCount", "DESC"]]
+      : sort === "favoriteCount"
+        ? [[sequelize.literal(favoriteCountSql), "DESC"]]
+        : [["createdAt", "DESC"]];
+
+  // Newest first among equal values, so pages are stable
+  order.push(["id", "DESC"]);
+
+  const total = await Mantra.count({ where });
+  const mantras = await Mantra.findAll({
+    where,
+    attributes: {
+      include: [[sequelize.literal(favoriteCountSql), "favoriteCount"]],
+    },
+    order,
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  // Owners of the mantras on this page
+  const mantraIds = mantras.map((mantra) => mantra.get("id") as number);
+  const ownerContracts = await ContractUsersMantras.findAll({
+    where: { mantraId: { [Op.in]: mantraIds } },
+    attributes: ["mantraId", "userId"],
+  });
+  const ownerMap = new Map<number, number>();
+  ownerContracts.forEach((contract) => {
+    const mantraId = contract.get("mantraId") as number;
+    if (!ownerMap.has(mantraId)) {
+      ownerMap.set(mantraId, contract.get("userId") as number);
+    }
+  });
+
+  // Tags and categories of the mantras on this page
+  const taggings = await getMantraTaggings(mantraIds);
+
+  return {
+    total,
+    mantras: mantras.map((mantra) => {
+      const plainMantra = mantra.get({ plain: true }) as {
+        id: number;
+        listenCount?: number | null;
+        favoriteCount?: number | string | null;
+      };
+
+      return {
+        ...plainMantra,
+        listenCount: plainMantra.listenCount ?? 0,
+        favoriteCount: Number(plainMantra.favoriteCount) || 0,
+        ownerUserId: ownerMap.get(plainMantra.id) ?? "missing",
+        ...taggings.get(plainMantra.id),
+      };
+    }),
+  };
+}
+
+/**
+ * Query string for another page of the same listing
+ * page and limit are always included, the other parameters only when they
+ * differ from the defaults.
+ */
+export function mantraListQueryString(
+  options: MantraListOptions,
+  page: number,
+): string {
+  const params = new URLSearchParams();
+
+  params.set("page", String(page));
+  params.set("limit", String(options.limit));
+
+  if (options.q) {
+    params.set("q", options.q);
+  }
+  if (options.owner !== null) {
+    params.set(
+      "owner",
+      options.owner === options.userId ? "me" : String(options.owner),
+    );
+  }
+  if (options.visibility) {
+    params.set("visibility", options.visibility);
+  }
+  if (options.favorites) {
+    params.set("favorites", "true");
+  }
+  if (options.tag) {
+    params.set("tag", options.tag);
+  }
+  if (options.category) {
+    params.set("category", options.category);
+  }
+  if (options.sort !== "newest") {
+    params.set("sort", options.sort);
+  }
+
+  return params.toString();
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { Op } from "sequelize";
+import { MantraShareToken } from "../models";
+import logger from "./logger";
+
+/**
+ * Share link details returned to the owner (never includes the token itself)
+ */
+export interface MantraShareSummary {
+  id: number;
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Hash a share token for storage and lookup
+ */
+const hashShareToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const toSummary = (shareToken: MantraShareToken): MantraShareSummary => ({
+  id: shareToken.id,
+  createdAt: shareToken.createdAt,
+  expiresAt: shareToken.expiresAt,
+});
+
+// Tokens that are neither revoked nor expired
+const activeWhere = () => ({
+  revokedAt: { [Op.is]: null },
+  [Op.or]: [
+    { expiresAt: { [Op.is]: null } },
+    { expiresAt: { [Op.gt]: new Date() } },
+  ],
+});
+
+/**
+ * Revoke a mantra's share links
+ *
+ * @returns The number of links revoked
+ */
+export async function revokeShareTokens(mantraId: number): Promise<number> {
+  const [revokedCount] = await MantraShareToken.update(
+    { revokedAt: new Date() },
+    {
+      where: {
+        mantraId,
+        revokedAt: { [Op.is]: null },
+      },
+    },
+  );
+
+  if (revokedCount > 0) {
+    logger.info(`Revoked ${revokedCount} share link(s) for mantra ${mantraId}`);
+  }
+
+  return revokedCount;
+}
+
+/**
+ * Create a share link for a mantra, revoking the previous one (rotation)
+ *
+ * @param mantraId - The unlisted mantra
+ * @param userId - The owner creating the link
+ * @param expiresInHours - Lifetime of the link, or null for a link that does not expire
+ * @returns The summary plus the plain token (only returned once)
+ */
+export async function createShareToken(
+  mantraId: number,
+  userId: number,
+  expiresInHours: number | null,
+): Promise<{ share: MantraShareSummary; token: string }> {
+  await revokeShareTokens(mantraId);
+
+  const token = crypto.randomBytes(24).toString("base64url");
+
+  const shareToken = await MantraShareToken.create({
+    mantraId,
+    userId,
+    tokenHash: hashShareToken(token),
+    expiresAt:
+      expiresInHours !== null
+        ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+        : null,
+  });
+
+  logger.info(
+    `Share link ${shareToken.id} created for mantra ${mantraId} by user ${userId}`,
+  );
+
+  return { share: toSummary(shareToken), token };
+}
+
+/**
+ * A mantra's active share link
+ *
+ * @returns null if the mantra has no active link
+ */
+export async function getActiveShareToken(
+  mantraId: number,
+): Promise<MantraShareSummary | null> {
+  const shareToken = await MantraShareToken.findOne({
+    where: { mantraId, ...activeWhere() },
+  });
+
+  return shareToken ? toSummary(shareToken) : null;
+}
+
+/**
+ * Check a share token presented for a mantra
+ *
+ * @returns true if the token is an active link to this mantra
+ */
+export async function isValidShareToken(
+  mantraId: number,
+  token: string,
+): Promise<boolean> {
+  const shareToken = await MantraShareToken.findOne({
+    where: { mantraId, tokenHash: hashShareToken(token), ...activeWhere() },
+  });
+
+  return shareToken !== null;
+}
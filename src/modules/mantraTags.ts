@@ -0,0 +1,517 @@
+import { Mantra, sequelize } from "mantrify01db";
+import { Op, fn, col, Utils } from "sequelize";
+import {
+  MantraTag,
+  MantraCategory,
+  ContractMantrasCategories,
+} from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import logger from "./logger";
+
+export const MAX_MANTRA_TAGS = 10;
+export const MAX_MANTRA_CATEGORIES = 3;
+const MAX_TAG_LENGTH = 30;
+const MAX_CATEGORY_NAME_LENGTH = 50;
+
+const DEFAULT_TAG_COUNT_LIMIT = 50;
+const MAX_TAG_COUNT_LIMIT = 200;
+
+// Letters and digits, words joined by single hyphens
+const TAG_PATTERN = /^[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*$/u;
+const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Categories created on first startup; admins curate the list afterwards
+ */
+export const DEFAULT_MANTRA_CATEGORIES: Array<{ slug: string; name: string }> =
+  [
+    { slug: "sleep", name: "Sleep" },
+    { slug: "focus", name: "Focus" },
+    { slug: "anxiety", name: "Anxiety" },
+    { slug: "gratitude", name: "Gratitude" },
+    { slug: "stress", name: "Stress Relief" },
+    { slug: "confidence", name: "Confidence" },
+    { slug: "morning", name: "Morning" },
+  ];
+
+export interface MantraTagging {
+  tags: string[];
+  categories: string[];
+}
+
+export interface MantraCategoryDetails {
+  id: number;
+  slug: string;
+  name: string;
+  sortOrder: number;
+  mantraCount: number;
+}
+
+/**
+ * Tag and category usage as returned by GET /mantras/tags
+ */
+export interface MantraTagCounts {
+  categories: Array<{ slug: string; name: string; mantraCount: number }>;
+  tags: Array<{ tag: string; mantraCount: number }>;
+}
+
+/**
+ * Normalize a tag: trimmed, lowercase, whitespace and underscores become hyphens
+ *
+ * @returns The normalized tag, or null if it is empty, too long or has other characters
+ */
+export function normalizeTag(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const tag = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-");
+
+  return tag.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(tag) ? tag : null;
+}
+
+/**
+ * Validate the tags of PATCH /mantras/update/:id
+ *
+ * @returns The normalized tags without duplicates
+ */
+export function parseMantraTags(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Tags must be an array of strings",
+      400,
+    );
+  }
+
+  const tags: string[] = [];
+
+  for (const entry of value) {
+    const tag = normalizeTag(entry);
+
+    if (tag === null) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Invalid tag: tags are at most ${MAX_TAG_LENGTH} letters, digits or hyphens`,
+        400,
+        { tag: entry },
+      );
+    }
+
+    if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  if (tags.length > MAX_MANTRA_TAGS) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `A mantra can have at most ${MAX_MANTRA_TAGS} tags`,
+      400,
+    );
+  }
+
+  return tags;
+}
+
+/**
+ * Validate the categories of PATCH /mantras/update/:id (category slugs)
+ *
+ * @returns The categories, in the order given
+ */
+export async function parseMantraCategories(
+  value: unknown,
+): Promise<MantraCategory[]> {
+  if (
+    !Array.isArray(value) ||
+    value.some((entry) => typeof entry !== "string")
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Categories must be an array of category slugs",
+      400,
+    );
+  }
+
+  const slugs = [...new Set(value as string[])];
+
+  if (slugs.length > MAX_MANTRA_CATEGORIES) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `A mantra can have at most ${MAX_MANTRA_CATEGORIES} categories`,
+      400,
+    );
+  }
+
+  const categories = await MantraCategory.findAll({
+    where: { slug: { [Op.in]: slugs } },
+  });
+  const unknownCategories = slugs.filter(
+    (slug) => !categories.some((category) => category.slug === slug),
+  );
+
+  if (unknownCategories.length > 0) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Unknown categories",
+      400,
+      { unknownCategories },
+    );
+  }
+
+  return slugs.map(
+    (slug) => categories.find((category) => category.slug === slug)!,
+  );
+}
+
+/**
+ * Replace a mantra's tags
+ */
+export async function setMantraTags(
+  mantraId: number,
+  tags: string[],
+): Promise<void> {
+  await MantraTag.destroy({ where: { mantraId } });
+  await MantraTag.bulkCreate(tags.map((tag) => ({ mantraId, tag })));
+}
+
+/**
+ * Replace a mantra's categories
+ */
+export async function setMantraCategories(
+  mantraId: number,
+  categories: MantraCategory[],
+): Promise<void> {
+  await ContractMantrasCategories.destroy({ where: { mantraId } });
+  await ContractMantrasCategories.bulkCreate(
+    categories.map((category) => ({ mantraId, categoryId: category.id })),
+  );
+}
+
+/**
+ * Tags and category slugs of several mantras
+ *
+ * @returns A map with an entry for every requested mantra
+ */
+export async function getMantraTaggings(
+  mantraIds: number[],
+): Promise<Map<number, MantraTagging>> {
+  const taggings = new Map<number, MantraTagging>();
+
+  mantraIds.forEach((mantraId) =>
+    taggings.set(mantraId, { tags: [], categories: [] }),
+  );
+
+  if (mantraIds.length === 0) {
+    return taggings;
+  }
+
+  const tags = await MantraTag.findAll({
+    where: { mantraId: { [Op.in]: mantraIds } },
+    order: [["tag", "ASC"]],
+  });
+  tags.forEach((tag) => taggings.get(tag.mantraId)?.tags.push(tag.tag));
+
+  const links = await ContractMantrasCategories.findAll({
+    where: { mantraId: { [Op.in]: mantraIds } },
+  });
+  const categories = await MantraCategory.findAll({
+    where: { id: { [Op.in]: links.map((link) => link.categoryId) } },
+    order: [
+      ["sortOrder", "ASC"],
+      ["name", "ASC"],
+    ],
+  });
+
+  for (const category of categories) {
+    links
+      .filter((link) => link.categoryId === category.id)
+      .forEach((link) =>
+        taggings.get(link.mantraId)?.categories.push(category.slug),
+      );
+  }
+
+  return taggings;
+}
+
+/**
+ * Tags and category slugs of a mantra
+ */
+export async function getMantraTagging(
+  mantraId: number,
+): Promise<MantraTagging> {
+  const taggings = await getMantraTaggings([mantraId]);
+  return taggings.get(mantraId)!;
+}
+
+/**
+ * Parse the limit of GET /mantras/tags
+ */
+export function parseTagCountLimit(value: unknown): number {
+  if (value === undefined) {
+    return DEFAULT_TAG_COUNT_LIMIT;
+  }
+
+  const limit = typeof value === "string" ? Number(value) : NaN;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TAG_COUNT_LIMIT) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `limit must be an integer between 1 and ${MAX_TAG_COUNT_LIMIT}`,
+      400,
+    );
+  }
+
+  return limit;
+}
+
+/**
+ * Number of mantras per category ID
+ *
+ * @param mantraIdsSql - Only count the mantras this subquery selects (all mantras if omitted)
+ */
+async function countCategoryMantras(
+  mantraIdsSql?: Utils.Literal,
+): Promise<Map<number, number>> {
+  const counts = await ContractMantrasCategories.findAll({
+    where: mantraIdsSql ? { mantraId: { [Op.in]: mantraIdsSql } } : {},
+    attributes: ["categoryId", [fn("COUNT", col("mantraId")), "mantraCount"]],
+    group: ["categoryId"],
+  });
+
+  return new Map(
+    counts.map((count) => [
+      count.categoryId,
+      Number(count.get("mantraCount")) || 0,
+    ]),
+  );
+}
+
+/**
+ * Number of public mantras per category and per tag
+ * Every category is listed (in display order), even when unused; tags are
+ * listed most used first and only if at least one public mantra has them.
+ *
+ * @param limit - Maximum number of tags returned
+ */
+export async function listTagCounts(limit: number): Promise<MantraTagCounts> {
+  // Public mantras are selected by the database instead of being loaded
+  const queryInterface = sequelize.getQueryInterface();
+  const publicMantraIdsSql = sequelize.literal(
+    `(SELECT id FROM ${queryInterface.quoteIdentifier(Mantra.getTableName() as string)}` +
+      ` WHERE visibility = ${sequelize.escape("public")})`,
+  );
+
+  const tagCounts = await MantraTag.findAll({
+    where: { mantraId: { [Op.in]: publicMantraIdsSql } },
+    attributes: ["tag", [fn("COUNT", col("mantraId")), "mantraCount"]],
+    group: ["tag"],
+    order: [
+      [fn("COUNT", col("mantraId")), "DESC"],
+      ["tag", "ASC"],
+    ],
+    limit,
+  });
+
+  const categoryCounts = await countCategoryMantras(publicMantraIdsSql);
+  const categories = await MantraCategory.findAll({
+    order: [
+      ["sortOrder", "ASC"],
+      ["name", "ASC"],
+    ],
+  });
+
+  return {
+    categories: categories.map((category) => ({
+      slug: category.slug,
+      name: category.name,
+      mantraCount: categoryCounts.get(category.id) ?? 0,
+    })),
+    tags: tagCounts.map((tagCount) => ({
+      tag: tagCount.tag,
+      mantraCount: Number(tagCount.get("mantraCount")) || 0,
+    })),
+  };
+}
+
+const toCategoryDetails = (
+  category: MantraCategory,
+  mantraCount: number,
+): MantraCategoryDetails => ({
+  id: category.id,
+  slug: category.slug,
+  name: category.name,
+  sortOrder: category.sortOrder,
+  mantraCount,
+});
+
+/**
+ * All categories with the number of mantras (of any visibility) in each
+ */
+export async function listCategories(): Promise<MantraCategoryDetails[]> {
+  const counts = await countCategoryMantras();
+  const categories = await MantraCategory.findAll({
+    order: [
+      ["sortOrder", "ASC"],
+      ["name", "ASC"],
+    ],
+  });
+
+  return categories.map((category) =>
+    toCategoryDetails(category, counts.get(category.id) ?? 0),
+  );
+}
+
+const parseCategoryName = (value: unknown): string => {
+  if (
+    typeof value !== "string" ||
+    value.trim() === "" ||
+    value.trim().length > MAX_CATEGORY_NAME_LENGTH
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `name must be a non-empty string of at most ${MAX_CATEGORY_NAME_LENGTH} characters`,
+      400,
+    );
+  }
+
+  return value.trim();
+};
+
+const parseSortOrder = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "sortOrder must be an integer",
+      400,
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Find a category by slug
+ *
+ * @returns The category (throws NOT_FOUND)
+ */
+export async function findCategory(slug: string): Promise<MantraCategory> {
+  const category = await MantraCategory.findOne({ where: { slug } });
+
+  if (!category) {
+    throw new AppError(
+      ErrorCodes.NOT_FOUND,
+      `Category ${slug} not found`,
+      404,
+    );
+  }
+
+  return category;
+}
+
+/**
+ * Add a category to the curated list
+ *
+ * @param body - Request body: slug, name and optional sortOrder
+ */
+export async function createCategory(
+  body: Record<string, unknown>,
+): Promise<MantraCategoryDetails> {
+  const { slug } = body;
+
+  if (
+    typeof slug !== "string" ||
+    slug.length > MAX_TAG_LENGTH ||
+    !CATEGORY_SLUG_PATTERN.test(slug)
+  ) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `slug must be at most ${MAX_TAG_LENGTH} lowercase letters, digits or hyphens`,
+      400,
+    );
+  }
+
+  const name = parseCategoryName(body.name);
+  const sortOrder =
+    body.sortOrder === undefined ? 0 : parseSortOrder(body.sortOrder);
+
+  if (await MantraCategory.findOne({ where: { slug } })) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Category ${slug} already exists`,
+      409,
+    );
+  }
+
+  const category = await MantraCategory.create({ slug, name, sortOrder });
+
+  return toCategoryDetails(category, 0);
+}
+
+/**
+ * Rename or reorder a category (its slug cannot change)
+ *
+ * @param body - Request body: name and/or sortOrder
+ */
+export async function updateCategory(
+  category: MantraCategory,
+  body: Record<string, unknown>,
+): Promise<MantraCategoryDetails> {
+  if (body.name === undefined && body.sortOrder === undefined) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "At least one field (name or sortOrder) must be provided",
+      400,
+    );
+  }
+
+  const updateData: { name?: string; sortOrder?: number } = {};
+
+  if (body.name !== undefined) {
+    updateData.name = parseCategoryName(body.name);
+  }
+
+  if (body.sortOrder !== undefined) {
+    updateData.sortOrder = parseSortOrder(body.sortOrder);
+  }
+
+  await category.update(updateData);
+
+  const mantraCount = await ContractMantrasCategories.count({
+    where: { categoryId: category.id },
+  });
+
+  return toCategoryDetails(category, mantraCount);
+}
+
+/**
+ * Remove a category from the list and from the mantras in it
+ *
+ * @returns The number of mantras that were in the category
+ */
+export async function deleteCategory(
+  category: MantraCategory,
+): Promise<number> {
+  const mantraCount = await ContractMantrasCategories.destroy({
+    where: { categoryId: category.id },
+  });
+  await category.destroy();
+
+  logger.info(
+    `Category ${category.slug} deleted (removed from ${mantraCount} mantras)`,
+  );
+
+  return mantraCount;
+}
+
+/**
+ * Delete the tags and category links of a deleted mantra
+ */
+export async function deleteMantraTags(mantraId: number): Promise<void> {
+  await MantraTag.destroy({ where: { mantraId } });
+  await ContractMantrasCategories.destroy({ where: { mantraId } });
+}
@@ -0,0 +1,245 @@
+import { Op } from "sequelize";
+import { SoundFiles } from "mantrify01db";
+import { AppError, ErrorCodes } from "./errorHandler";
+
+// Limits for mantraArray elements (configurable through environment variables)
+const MANTRA_MAX_ELEMENTS = parseInt(
+  process.env.MANTRA_MAX_ELEMENTS || "100",
+  10,
+);
+const PAUSE_DURATION_MIN_SECONDS = parseFloat(
+  process.env.PAUSE_DURATION_MIN_SECONDS || "0.1",
+);
+const PAUSE_DURATION_MAX_SECONDS = parseFloat(
+  process.env.PAUSE_DURATION_MAX_SECONDS || "300",
+);
+const TEXT_MAX_LENGTH = parseInt(process.env.TEXT_MAX_LENGTH || "1000", 10);
+
+// ElevenLabs accepts speeds between 0.7 and 1.2
+const SPEED_MIN = 0.7;
+const SPEED_MAX = 1.2;
+
+const ELEMENT_TYPES = ["pause_duration", "text", "sound_file"];
+
+/**
+ * A mantraArray element that passed validation
+ * Exactly one of pause_duration, text or sound_file is set; numbers may still
+ * be numeric strings ("3.0").
+ */
+export interface MantraElement {
+  id: number | string;
+  pause_duration?: number | string;
+  text?: string;
+  voice_id?: string;
+  speed?: number | string;
+  sound_file?: string;
+}
+
+/**
+ * A single problem found in mantraArray
+ * index is the element position, or null for problems with the whole array
+ */
+export interface MantraElementViolation {
+  index: number | null;
+  field: string;
+  message: string;
+}
+
+/**
+ * Parse a number sent either as a JSON number or a numeric string ("3.0")
+ */
+const parseNumeric = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+};
+
+/**
+ * Validate every element of a mantraArray
+ *
+ * @param mantraArray - Value received from the client
+ * @returns Every violation found (empty if the array is valid)
+ */
+export async function validateMantraArray(
+  mantraArray: unknown,
+): Promise<MantraElementViolation[]> {
+  const violations: MantraElementViolation[] = [];
+
+  if (!Array.isArray(mantraArray)) {
+    return [
+      { index: null, field: "mantraArray", message: "Must be an array" },
+    ];
+  }
+
+  if (mantraArray.length === 0) {
+    violations.push({
+      index: null,
+      field: "mantraArray",
+      message: "Must contain at least one element",
+    });
+  }
+
+  if (mantraArray.length > MANTRA_MAX_ELEMENTS) {
+    violations.push({
+      index: null,
+      field: "mantraArray",
+      message: `Must contain at most ${MANTRA_MAX_ELEMENTS} elements`,
+    });
+  }
+
+  const seenIds = new Map<string, number>();
+  const soundFileIndexes = new Map<string, number[]>();
+
+  mantraArray.forEach((element: any, index: number) => {
+    const add = (field: string, message: string) =>
+      violations.push({ index, field, message });
+
+    if (!element || typeof element !== "object" || Array.isArray(element)) {
+      add("element", "Must be an object");
+      return;
+    }
+
+    // Unique id
+    const { id } = element;
+    const isValidId =
+      (typeof id === "number" && Number.isInteger(id)) ||
+      (typeof id === "string" && id.trim() !== "");
+
+    if (id === undefined || id === null) {
+      add("id", "Is required");
+    } else if (!isValidId) {
+      add("id", "Must be an integer or a non-empty string");
+    } else {
+      const key = String(id);
+      const firstIndex = seenIds.get(key);
+
+      if (firstIndex !== undefined) {
+        add("id", `Duplicates the id of element ${firstIndex}`);
+      } else {
+        seenIds.set(key, index);
+      }
+    }
+
+    // Exactly one element type
+    const types = ELEMENT_TYPES.filter(
+      (type) => element[type] !== undefined && element[type] !== null,
+    );
+
+    if (types.length !== 1) {
+      add(
+        "element",
+        types.length === 0
+          ? "Must have one of pause_duration, text or sound_file"
+          : `Must have only one of pause_duration, text or sound_file (found ${types.join(", ")})`,
+      );
+      return;
+    }
+
+    const type = types[0];
+
+    if (type === "pause_duration") {
+      const duration = parseNumeric(element.pause_duration);
+
+      if (duration === null) {
+        add("pause_duration", "Must be a number of seconds");
+      } else if (
+        duration < PAUSE_DURATION_MIN_SECONDS ||
+        duration > PAUSE_DURATION_MAX_SECONDS
+      ) {
+        add(
+          "pause_duration",
+          `Must be between ${PAUSE_DURATION_MIN_SECONDS} and ${PAUSE_DURATION_MAX_SECONDS} seconds`,
+        );
+      }
+    }
+
+    if (type === "text") {
+      if (typeof element.text !== "string" || element.text.trim() === "") {
+        add("text", "Must be a non-empty string");
+      } else if (element.text.length > TEXT_MAX_LENGTH) {
+        add("text", `Must be at most ${TEXT_MAX_LENGTH} characters`);
+      }
+
+      if (
+        element.voice_id !== undefined &&
+        (typeof element.voice_id !== "string" || element.voice_id.trim() === "")
+      ) {
+        add("voice_id", "Must be a non-empty string");
+      }
+
+      if (element.speed !== undefined) {
+        const speed = parseNumeric(element.speed);
+
+        if (speed === null) {
+          add("speed", "Must be a number");
+        } else if (speed < SPEED_MIN || speed > SPEED_MAX) {
+          add("speed", `Must be between ${SPEED_MIN} and ${SPEED_MAX}`);
+        }
+      }
+    }
+
+    if (type === "sound_file") {
+      if (
+        typeof element.sound_file !== "string" ||
+        element.sound_file.trim() === ""
+      ) {
+        add("sound_file", "Must be a non-empty string");
+      } else {
+        const indexes = soundFileIndexes.get(element.sound_file) || [];
+        indexes.push(index);
+        soundFileIndexes.set(element.sound_file, indexes);
+      }
+    }
+  });
+
+  // Sound files must exist in SoundFiles (one query for all elements)
+  if (soundFileIndexes.size > 0) {
+    const soundFiles = await SoundFiles.findAll({
+      where: { filename: { [Op.in]: Array.from(soundFileIndexes.keys()) } },
+      attributes: ["filename"],
+    });
+    const existing = new Set(
+      soundFiles.map((soundFile) => soundFile.get("filename") as string),
+    );
+
+    for (const [filename, indexes] of soundFileIndexes) {
+      if (!existing.has(filename)) {
+        indexes.forEach((index) =>
+          violations.push({
+            index,
+            field: "sound_file",
+            message: `Sound file "${filename}" does not exist`,
+          }),
+        );
+      }
+    }
+  }
+
+  // Array-level problems first, then by element index
+  return violations.sort((a, b) => (a.index ?? -1) - (b.index ?? -1));
+}
+
+/**
+ * Throw a VALIDATION_ERROR listing every violation if mantraArray is invalid
+ */
+export async function assertValidMantraArray(
+  mantraArray: unknown,
+): Promise<void> {
+  const violations = await validateMantraArray(mantraArray);
+
+  if (violations.length > 0) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "mantraArray is invalid",
+      400,
+      violations,
+    );
+  }
+}
@@ -0,0 +1,339 @@
+import fs from "fs";
+import { UniqueConstraintError } from "sequelize";
+import { Mantra, sequelize } from "mantrify01db";
+import { MantraVersion } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { getMantraFilePath } from "./mantraAccess";
+import {
+  submitMantraJob,
+  findMantraJob,
+  applyCompletedJobToVersion,
+  JobStatus,
+} from "./mantraJobs";
+import { MantraElement } from "./mantraValidation";
+import logger from "./logger";
+
+/**
+ * Version as listed by GET /mantras/:id/versions
+ * status is "ready" once the version has audio, otherwise its job's status.
+ */
+export interface MantraVersionDetails {
+  version: number;
+  status: "ready" | JobStatus;
+  current: boolean;
+  queueId: number | null;
+  createdAt: Date;
+}
+
+/**
+ * Whether the mantra currently points to the version's audio file
+ */
+const isCurrentVersion = (
+  mantra: InstanceType<typeof Mantra>,
+  version: MantraVersion,
+): boolean =>
+  version.filename !== null &&
+  version.filename === mantra.get("filename") &&
+  (version.filePath || null) === (mantra.get("filePath") || null);
+
+// A version still pending after this long was left behind by a submission that
+// never finished (e.g. the server stopped) and no longer blocks new versions
+const PENDING_VERSION_TIMEOUT_MS = 10 * 60 * 1000;
+
+const getVersionStatus = async (
+  version: MantraVersion,
+): Promise<"ready" | JobStatus> => {
+  if (version.filename !== null) {
+    return "ready";
+  }
+
+  if (version.pending) {
+    return Date.now() - version.createdAt.getTime() < PENDING_VERSION_TIMEOUT_MS
+      ? "queued"
+      : "failed";
+  }
+
+  const job =
+    version.queueId !== null ? await findMantraJob(version.queueId) : null;
+  return job?.status ?? "failed";
+};
+
+/**
+ * A mantra's versions, oldest first
+ * The mantra's existing audio is recorded as version 1 the first time.
+ */
+async function loadMantraVersions(
+  mantra: InstanceType<typeof Mantra>,
+): Promise<MantraVersion[]> {
+  const mantraId = mantra.get("id") as number;
+  const versions = await MantraVersion.findAll({
+    where: { mantraId },
+    order: [["version", "ASC"]],
+  });
+
+  if (versions.length > 0) {
+    return versions;
+  }
+
+  const mantraArray = mantra.get("mantraArray");
+  const original = await MantraVersion.create({
+    mantraId,
+    version: 1,
+    mantraArray:
+      mantraArray === undefined || mantraArray === null
+        ? null
+        : typeof mantraArray === "string"
+          ? mantraArray
+          : JSON.stringify(mantraArray),
+    queueId: null,
+    filename: (mantra.get("filename") as string | null) || null,
+    filePath: (mantra.get("filePath") as string | null) || null,
+  });
+
+  return [original];
+}
+
+/**
+ * List a mantra's versions with their status
+ */
+export async function listMantraVersions(
+  mantra: InstanceType<typeof Mantra>,
+): Promise<MantraVersionDetails[]> {
+  const versions = await loadMantraVersions(mantra);
+
+  return Promise.all(
+    versions.map(async (version) => ({
+      version: version.version,
+      status: await getVersionStatus(version),
+      current: isCurrentVersion(mantra, version),
+      queueId: version.queueId,
+      createdAt: version.createdAt,
+    })),
+  );
+}
+
+/**
+ * The elements of the mantra's current version
+ *
+ * @returns null if the mantra has no versions or the current version's elements were not recorded
+ */
+export async function findCurrentMantraArray(
+  mantra: InstanceType<typeof Mantra>,
+): Promise<unknown[] | null> {
+  const versions = await MantraVersion.findAll({
+    where: { mantraId: mantra.get("id") as number },
+  });
+  const current = versions.find((version) =>
+    isCurrentVersion(mantra, version),
+  );
+
+  return current?.mantraArray ? JSON.parse(current.mantraArray) : null;
+}
+
+/**
+ * Generate a new audio version of a mantra from a new mantraArray
+ * The job is created like POST /mantras/create (quotas apply); when it completes,
+ * the mantra switches to the new audio and keeps its ID, counters and favorites.
+ * Only one version can be generated at a time: the version is reserved as
+ * pending before the job is submitted and removed again if submission fails.
+ *
+ * @param mantra - The mantra (ownership already verified)
+ * @param userId - The owner submitting the version
+ * @param mantraArray - Validated mantra elements
+ * @returns The new version number and its queue ID
+ */
+export async function submitMantraVersion(
+  mantra: InstanceType<typeof Mantra>,
+  userId: number,
+  mantraArray: MantraElement[],
+): Promise<{ version: number; queueId: number }> {
+  const mantraId = mantra.get("id") as number;
+  await loadMantraVersions(mantra);
+
+  const transaction = await sequelize.transaction();
+  let pendingVersion: MantraVersion;
+
+  try {
+    const versions = await MantraVersion.findAll({
+      where: { mantraId },
+      order: [["version", "ASC"]],
+      transaction,
+    });
+
+    for (const version of versions) {
+      const status = await getVersionStatus(version);
+
+      if (status !== "ready" && status !== "failed" && status !== "cancelled") {
+        throw new AppError(
+          ErrorCodes.CONFLICT,
+          version.queueId !== null
+            ? `Version ${version.version} of this mantra is still being generated (job ${version.queueId})`
+            : `Version ${version.version} of this mantra is still being submitted`,
+          409,
+        );
+      }
+    }
+
+    // The unique (mantraId, version) index rejects a concurrent submission
+    pendingVersion = await MantraVersion.create(
+      {
+        mantraId,
+        version: versions[versions.length - 1].version + 1,
+        mantraArray: JSON.stringify(mantraArray),
+        queueId: null,
+        pending: true,
+      },
+      { transaction },
+    );
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+
+    if (error instanceof UniqueConstraintError) {
+      throw new AppError(
+        ErrorCodes.CONFLICT,
+        "Another version of this mantra is being submitted",
+        409,
+      );
+    }
+
+    throw error;
+  }
+
+  let queueId: number;
+
+  try {
+    queueId = await submitMantraJob(userId, mantraArray);
+  } catch (error) {
+    await pendingVersion.destroy();
+    throw error;
+  }
+
+  await pendingVersion.update({ queueId, pending: false });
+
+  // The job may have completed before the version knew its queue ID
+  await applyCompletedJobToVersion(queueId);
+
+  logger.info(
+    `User ${userId} submitted version ${pendingVersion.version} of mantra ${mantraId} as job ${queueId}`,
+  );
+
+  return { version: pendingVersion.version, queueId };
+}
+
+/**
+ * Find a version of a mantra that has audio
+ *
+ * @returns The version (throws NOT_FOUND, or CONFLICT if it has no audio yet)
+ */
+export async function findMantraVersion(
+  mantra: InstanceType<typeof Mantra>,
+  versionNumber: number,
+): Promise<MantraVersion> {
+  const versions = await loadMantraVersions(mantra);
+  const version = versions.find(
+    (candidate) => candidate.version === versionNumber,
+  );
+
+  if (!version) {
+    throw new AppError(
+      ErrorCodes.NOT_FOUND,
+      `Version ${versionNumber} not found`,
+      404,
+    );
+  }
+
+  if (version.filename === null) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Version ${versionNumber} has no audio (status: ${await getVersionStatus(version)})`,
+      409,
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Point a mantra back to the audio of one of its versions
+ *
+ * @returns The version now current
+ */
+export async function rollbackMantra(
+  mantra: InstanceType<typeof Mantra>,
+  versionNumber: number,
+): Promise<MantraVersion> {
+  const version = await findMantraVersion(mantra, versionNumber);
+  const fullFilePath = getMantraFilePath(version);
+
+  if (!fs.existsSync(fullFilePath)) {
+    logger.error(`Mantra version file not found: ${fullFilePath}`);
+    throw new AppError(
+      ErrorCodes.MANTRA_NOT_FOUND,
+      "Mantra audio file not found",
+      404,
+    );
+  }
+
+  const mantraChanges: Record<string, unknown> = {
+    filename: version.filename,
+    filePath: version.filePath,
+  };
+
+  // The mantra's elements describe its current audio
+  if (version.mantraArray !== null) {
+    mantraChanges.mantraArray = JSON.parse(version.mantraArray);
+  }
+
+  await mantra.update(mantraChanges);
+
+  logger.info(
+    `Mantra ${mantra.get("id")} rolled back to version ${versionNumber}`,
+  );
+
+  return version;
+}
+
+/**
+ * Delete the audio files of a mantra's versions
+ * Files that cannot be deleted are logged and skipped.
+ *
+ * @returns The number of files deleted
+ */
+export async function deleteMantraVersionFiles(
+  mantraId: number,
+): Promise<number> {
+  const versions = await MantraVersion.findAll({ where: { mantraId } });
+  let deletedCount = 0;
+
+  for (const version of versions) {
+    if (version.filename === null) {
+      continue;
+    }
+
+    try {
+      const fullFilePath = getMantraFilePath(version);
+
+      if (fs.existsSync(fullFilePath)) {
+        fs.unlinkSync(fullFilePath);
+        logger.info(`Deleted mantra version file: ${fullFilePath}`);
+        deletedCount++;
+      }
+    } catch (error: any) {
+      logger.error(
+        `Failed to delete file of version ${version.version} of mantra ${mantraId}: ${error.message}`,
+      );
+    }
+  }
+
+  return deletedCount;
+}
+
+/**
+ * Delete the audio files and records of a deleted mantra's versions
+ */
+export async function deleteMantraVersions(mantraId: number): Promise<void> {
+  await deleteMantraVersionFiles(mantraId);
+  await MantraVersion.destroy({ where: { mantraId } });
+}
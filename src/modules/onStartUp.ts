@@ -1,7 +1,53 @@
-import { sequelize, User } from "mantrify01db";
+import { sequelize, User, Mantra } from "mantrify01db";
+import { Op } from "sequelize";
 import { hashPassword } from "./passwordHash";
+import {
+  MantraCategory,
+  MantraDraft,
+  MantraRemix,
+  API_MODELS
+} from "../models";
+import { DEFAULT_MANTRA_CATEGORIES } from "./mantraTags";
 import logger from "./logger";
 
+/**
+ * Adds columns that API-owned models gained after their tables were created
+ * sequelize.sync() only creates missing tables, so existing databases would
+ * otherwise never get new columns (e.g. RefreshTokens.sessionId). Runs before
+ * sync so indexes on new columns can be created. Required columns without a
+ * default are added as nullable because existing rows have no value for them.
+ */
+export const addMissingColumns = async (): Promise<void> => {
+  const queryInterface = sequelize.getQueryInterface();
+
+  for (const model of API_MODELS) {
+    const tableName = model.getTableName() as string;
+
+    if (!(await queryInterface.tableExists(tableName))) {
+      continue;
+    }
+
+    const columns = await queryInterface.describeTable(tableName);
+
+    for (const [name, attribute] of Object.entries(model.getAttributes())) {
+      const columnName = attribute.field ?? name;
+
+      if (columns[columnName]) {
+        continue;
+      }
+
+      await queryInterface.addColumn(tableName, columnName, {
+        type: attribute.type,
+        allowNull:
+          attribute.allowNull !== false || attribute.defaultValue === undefined,
+        defaultValue: attribute.defaultValue,
+      });
+
+      logger.info(`Added missing column ${tableName}.${columnName}`);
+    }
+  }
+};
+
 /**
  * Checks and creates the database if it doesn't exist
  * Uses Sequelize sync to create all tables based on models
@@ -14,6 +60,9 @@ export const checkDatabase = async (): Promise<void> => {
     await sequelize.authenticate();
     logger.info("Database connection established successfully");
 
+    // Add columns introduced after a table was created
+    await addMissingColumns();
+
     // Sync database (creates tables if they don't exist)
     await sequelize.sync();
     logger.info("Database schema synchronized successfully");
@@ -83,6 +132,86 @@ export const createAdminUser = async (): Promise<void> => {
   }
 };
 
+/**
+ * Creates the default mantra categories if there are none
+ * Runs only on an empty category list, so categories removed by admins stay removed
+ */
+export const createDefaultCategories = async (): Promise<void> => {
+  try {
+    const categoryCount = await MantraCategory.count();
+
+    if (categoryCount > 0) {
+      return;
+    }
+
+    await MantraCategory.bulkCreate(
+      DEFAULT_MANTRA_CATEGORIES.map((category, index) => ({
+        ...category,
+        sortOrder: index,
+      }))
+    );
+
+    logger.info(
+      `Created default mantra categories: ${DEFAULT_MANTRA_CATEGORIES.map((category) => category.slug).join(", ")}`
+    );
+  } catch (error: any) {
+    logger.error(`Failed to create default categories: ${error.message}`);
+    throw new Error(`Default category creation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Records the remix attribution of mantras created from remixed drafts before
+ * the attribution was kept with the mantra
+ * Runs only while no attribution is recorded, so it copies the drafts once
+ */
+export const recordExistingRemixes = async (): Promise<void> => {
+  try {
+    const remixCount = await MantraRemix.count();
+
+    if (remixCount > 0) {
+      return;
+    }
+
+    const drafts = await MantraDraft.findAll({
+      where: {
+        mantraId: { [Op.ne]: null },
+        remixedFromMantraId: { [Op.ne]: null }
+      }
+    });
+
+    if (drafts.length === 0) {
+      return;
+    }
+
+    const existingMantras = await Mantra.findAll({
+      where: { id: { [Op.in]: drafts.map((draft) => draft.mantraId) } },
+      attributes: ["id"]
+    });
+    const existingMantraIds = new Set(
+      existingMantras.map((mantra: any) => mantra.get("id") as number)
+    );
+
+    const remixes = drafts
+      .filter((draft) => existingMantraIds.has(draft.mantraId as number))
+      .map((draft) => ({
+        mantraId: draft.mantraId as number,
+        remixedFromMantraId: draft.remixedFromMantraId as number
+      }));
+
+    if (remixes.length === 0) {
+      return;
+    }
+
+    await MantraRemix.bulkCreate(remixes, { ignoreDuplicates: true });
+
+    logger.info(`Recorded remix attribution of ${remixes.length} mantra(s)`);
+  } catch (error: any) {
+    logger.error(`Failed to record existing remixes: ${error.message}`);
+    throw new Error(`Remix attribution backfill failed: ${error.message}`);
+  }
+};
+
 /**
  * Runs all startup checks in sequence
  * This is the main entry point for startup operations
@@ -97,6 +226,12 @@ export const runStartupChecks = async (): Promise<void> => {
     // Create admin user if needed
     await createAdminUser();
 
+    // Create the default mantra categories if needed
+    await createDefaultCategories();
+
+    // Keep the remix attribution of mantras created before it was recorded
+    await recordExistingRemixes();
+
     logger.info("All startup checks completed successfully");
   } catch (error: any) {
     logger.error(`Startup checks failed: ${error.message}`);
@@ -1,15 +1,32 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyAccessToken } from "./jwt";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { findActiveSession } from "./sessions";
+import { extractApiKey, authenticateApiKey } from "./apiKeys";
 import logger from "./logger";
 
 // Optional authentication middleware
 // Attaches user info to request if valid token is present, but doesn't fail if token is missing
-export const optionalAuthMiddleware = (
+// An expired token is rejected with TOKEN_EXPIRED so the client knows to refresh it
+export const optionalAuthMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    // An API key that is invalid or lacks the scope is treated like a missing token
+    const apiKey = extractApiKey(req);
+
+    if (apiKey) {
+      try {
+        req.user = await authenticateApiKey(apiKey, req);
+      } catch (error: any) {
+        logger.warn(`Optional auth: API key rejected - ${error.message}`);
+        req.user = undefined;
+      }
+      return next();
+    }
+
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
 
@@ -32,9 +49,26 @@ export const optionalAuthMiddleware = (
     // Try to verify token
     try {
       const payload = verifyAccessToken(token);
+
+      // A revoked session is treated like a missing token
+      const session = payload.sessionId
+        ? await findActiveSession(payload.sessionId, payload.userId)
+        : null;
+
       // Attach user info to request
-      req.user = payload;
+      req.user = session ? payload : undefined;
     } catch (error: any) {
+      if (error.name === "TokenExpiredError") {
+        return next(
+          new AppError(
+            ErrorCodes.TOKEN_EXPIRED,
+            "Token expired",
+            401,
+            error.message
+          )
+        );
+      }
+
       // Token verification failed, continue without user
       logger.warn(
         `Optional auth: Token verification failed - ${error.message}`
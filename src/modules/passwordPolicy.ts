@@ -0,0 +1,131 @@
+import { AppError, ErrorCodes } from "./errorHandler";
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+/**
+ * Password rules, configured through environment variables
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+/**
+ * A single violated rule, returned in the VALIDATION_ERROR details
+ */
+export interface PasswordPolicyViolation {
+  field: string;
+  rule: string;
+  message: string;
+}
+
+const envFlag = (name: string, defaultValue: boolean): boolean => {
+  const value = process.env[name];
+  return value === undefined ? defaultValue : value === "true";
+};
+
+/**
+ * Read the current password policy
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8", 10),
+    requireLowercase: envFlag("PASSWORD_REQUIRE_LOWERCASE", true),
+    requireUppercase: envFlag("PASSWORD_REQUIRE_UPPERCASE", false),
+    requireNumber: envFlag("PASSWORD_REQUIRE_NUMBER", true),
+    requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", false),
+  };
+}
+
+/**
+ * Check a password against the policy
+ *
+ * @param password - Candidate password
+ * @param field - Request field name reported in violations
+ * @returns Every violated rule (empty if the password is acceptable)
+ */
+export function checkPasswordPolicy(
+  password: unknown,
+  field: string = "password",
+): PasswordPolicyViolation[] {
+  if (typeof password !== "string") {
+    return [{ field, rule: "type", message: "Password must be a string" }];
+  }
+
+  const policy = getPasswordPolicy();
+  const violations: PasswordPolicyViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      field,
+      rule: "minLength",
+      message: `Password must be at least ${policy.minLength} characters long`,
+    });
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push({
+      field,
+      rule: "lowercase",
+      message: "Password must contain a lowercase letter",
+    });
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push({
+      field,
+      rule: "uppercase",
+      message: "Password must contain an uppercase letter",
+    });
+  }
+
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    violations.push({
+      field,
+      rule: "number",
+      message: "Password must contain a number",
+    });
+  }
+
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({
+      field,
+      rule: "symbol",
+      message: "Password must contain a symbol",
+    });
+  }
+
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    violations.push({
+      field,
+      rule: "common",
+      message: "Password is too common",
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Throw a VALIDATION_ERROR listing the violated rules if the password is rejected
+ *
+ * @param password - Candidate password
+ * @param field - Request field name reported in violations
+ */
+export function assertPasswordMeetsPolicy(
+  password: unknown,
+  field: string = "password",
+): void {
+  const violations = checkPasswordPolicy(password, field);
+
+  if (violations.length > 0) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Password does not meet the password policy",
+      400,
+      violations,
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import { Request, Response, NextFunction } from "express";
+import { User, sequelize } from "mantrify01db";
+import { UserRole } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { assertAdminTwoFactor } from "./twoFactor";
+import logger from "./logger";
+
+export const ROLES = ["admin", "moderator", "sound-curator", "user"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "users:read",
+  "users:manage",
+  "roles:assign",
+  "mantras:read-all",
+  "mantras:moderate",
+  "categories:manage",
+  "queue:read",
+  "queue:manage",
+  "quotas:manage",
+  "sounds:upload",
+  "sounds:edit",
+  "sounds:delete",
+  "sounds:delete-shared",
+  "database:backup",
+  "database:restore",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by each role
+ * Every user has the user role; a user's permissions are the union of their roles.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...PERMISSIONS],
+  moderator: [
+    "users:read",
+    "mantras:read-all",
+    "mantras:moderate",
+    "queue:read",
+    "sounds:upload",
+  ],
+  "sound-curator": ["sounds:upload", "sounds:edit", "sounds:delete"],
+  user: ["sounds:upload"],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && (ROLES as readonly string[]).includes(value);
+
+/**
+ * Permissions beyond those of the user role, for which admins may be required to use 2FA
+ */
+const isPrivilegedPermission = (permission: Permission): boolean =>
+  !ROLE_PERMISSIONS.user.includes(permission);
+
+/**
+ * Roles of a user: admin (from Users.isAdmin), stored roles and the implicit user role
+ *
+ * @param user - User record (isAdmin is read from it)
+ */
+export async function getRolesForUser(
+  user: InstanceType<typeof User>,
+): Promise<Role[]> {
+  const roles = new Set<Role>();
+
+  if (user.get("isAdmin")) {
+    roles.add("admin");
+  }
+
+  const storedRoles = await UserRole.findAll({
+    where: { userId: user.get("id") },
+  });
+
+  for (const storedRole of storedRoles) {
+    if (isRole(storedRole.role)) {
+      roles.add(storedRole.role);
+    }
+  }
+
+  roles.add("user");
+
+  return ROLES.filter((role) => roles.has(role));
+}
+
+/**
+ * Union of the permissions granted by a set of roles
+ */
+export function permissionsForRoles(roles: Role[]): Permission[] {
+  const permissions = new Set<Permission>();
+
+  for (const role of roles) {
+    ROLE_PERMISSIONS[role].forEach((permission) => permissions.add(permission));
+  }
+
+  return PERMISSIONS.filter((permission) => permissions.has(permission));
+}
+
+/**
+ * Check whether a user holds a permission, enforcing admin 2FA like requirePermission
+ * Throws TWO_FACTOR_REQUIRED when the permission is privileged and the user is an
+ * admin without the 2FA required by REQUIRE_ADMIN_2FA.
+ *
+ * @returns false if the user does not exist or lacks the permission
+ */
+export async function userHasPrivilegedPermission(
+  userId: number,
+  permission: Permission,
+): Promise<boolean> {
+  const user = await User.findByPk(userId);
+
+  if (!user) {
+    return false;
+  }
+
+  const roles = await getRolesForUser(user);
+
+  if (!permissionsForRoles(roles).includes(permission)) {
+    return false;
+  }
+
+  if (isPrivilegedPermission(permission) && roles.includes("admin")) {
+    await assertAdminTwoFactor(userId);
+  }
+
+  return true;
+}
+
+/**
+ * Replace a user's roles
+ * The admin role is written to Users.isAdmin; the user role is implicit.
+ *
+ * @param userId - The user whose roles change
+ * @param roles - The complete new set of roles
+ * @returns The user's roles after the change
+ */
+export async function setUserRoles(
+  userId: number,
+  roles: Role[],
+): Promise<Role[]> {
+  const user = await User.findByPk(userId);
+
+  if (!user) {
+    throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+  }
+
+  const storedRoles = Array.from(new Set(roles)).filter(
+    (role) => role !== "admin" && role !== "user",
+  );
+
+  const transaction = await sequelize.transaction();
+
+  try {
+    await UserRole.destroy({ where: { userId }, transaction });
+
+    if (storedRoles.length > 0) {
+      await UserRole.bulkCreate(
+        storedRoles.map((role) => ({ userId, role })),
+        { transaction },
+      );
+    }
+
+    await User.update(
+      { isAdmin: roles.includes("admin") },
+      { where: { id: userId }, transaction },
+    );
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  await user.reload();
+  const updatedRoles = await getRolesForUser(user);
+
+  logger.info(`Roles for user ${userId} set to: ${updatedRoles.join(", ")}`);
+
+  return updatedRoles;
+}
+
+/**
+ * Permission middleware - verifies the authenticated user holds every listed permission
+ * Must be used after authMiddleware
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Check if user is authenticated (should be set by authMiddleware)
+      if (!req.user) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Authentication required",
+          401,
+        );
+      }
+
+      // Fetch user from database to resolve roles
+      const user = await User.findByPk(req.user.userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      const roles = await getRolesForUser(user);
+      const granted = permissionsForRoles(roles);
+      const missing = permissions.filter(
+        (permission) => !granted.includes(permission),
+      );
+
+      if (missing.length > 0) {
+        logger.warn(
+          `User ${req.user.userId} lacks permission ${missing.join(", ")}: ${req.method} ${req.originalUrl}`,
+        );
+        throw new AppError(
+          ErrorCodes.PERMISSION_DENIED,
+          `Permission required: ${missing.join(", ")}`,
+          403,
+        );
+      }
+
+      // Admins may be required to use 2FA for privileged endpoints (REQUIRE_ADMIN_2FA)
+      const isPrivileged = permissions.some(isPrivilegedPermission);
+
+      if (isPrivileged && roles.includes("admin")) {
+        await assertAdminTwoFactor(req.user.userId);
+      }
+
+      next();
+    } catch (error: any) {
+      next(error);
+    }
+  };
+};
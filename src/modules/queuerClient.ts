@@ -0,0 +1,309 @@
+import { AppError, ErrorCodes } from "./errorHandler";
+import logger from "./logger";
+
+// The queuer answers POST /mantras/new only after the mantra is generated, so the default is generous
+const QUEUER_TIMEOUT_MS = parseInt(
+  process.env.QUEUER_TIMEOUT_MS || "600000",
+  10,
+);
+
+// Retries for failures where the queuer cannot have started the job
+const QUEUER_MAX_RETRIES = parseInt(process.env.QUEUER_MAX_RETRIES || "2", 10);
+const QUEUER_RETRY_BASE_DELAY_MS = parseInt(
+  process.env.QUEUER_RETRY_BASE_DELAY_MS || "500",
+  10,
+);
+
+// Consecutive failures that open the circuit, and how long it stays open
+const QUEUER_CIRCUIT_FAILURE_THRESHOLD = parseInt(
+  process.env.QUEUER_CIRCUIT_FAILURE_THRESHOLD || "5",
+  10,
+);
+const QUEUER_CIRCUIT_RESET_SECONDS = parseInt(
+  process.env.QUEUER_CIRCUIT_RESET_SECONDS || "30",
+  10,
+);
+
+// Connection errors raised before the request reached the queuer
+const RETRYABLE_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+// Responses meaning the queuer (or a proxy in front of it) did not take the request
+const RETRYABLE_STATUSES = [502, 503];
+
+// Interface for queuer response
+export interface QueuerResponse {
+  success: boolean;
+  queueId?: number;
+  finalFilePath?: string;
+  message?: string;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface QueuerCircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+}
+
+// Circuit breaker state
+// closed: requests flow normally
+// open: requests fail fast with SERVICE_UNAVAILABLE until the reset time
+// half-open: requests are let through; the next success closes the circuit, the next failure reopens it
+const circuit = {
+  consecutiveFailures: 0,
+  openedAt: null as number | null,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getCircuitState = (): CircuitState => {
+  if (circuit.openedAt === null) {
+    return "closed";
+  }
+
+  return Date.now() - circuit.openedAt < QUEUER_CIRCUIT_RESET_SECONDS * 1000
+    ? "open"
+    : "half-open";
+};
+
+const recordSuccess = (): void => {
+  if (circuit.openedAt !== null) {
+    logger.info("Queuer circuit closed");
+  }
+
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+};
+
+const recordFailure = (): void => {
+  const state = getCircuitState();
+  circuit.consecutiveFailures += 1;
+
+  if (
+    state === "half-open" ||
+    (state === "closed" &&
+      circuit.consecutiveFailures >= QUEUER_CIRCUIT_FAILURE_THRESHOLD)
+  ) {
+    circuit.openedAt = Date.now();
+    logger.error(
+      `Queuer circuit opened after ${circuit.consecutiveFailures} consecutive failures`,
+    );
+  }
+};
+
+/**
+ * Current circuit breaker state (shown by GET /health)
+ */
+export function getQueuerCircuitStatus(): QueuerCircuitStatus {
+  return {
+    state: getCircuitState(),
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt !== null ? new Date(circuit.openedAt) : null,
+    retryAt:
+      circuit.openedAt !== null
+        ? new Date(circuit.openedAt + QUEUER_CIRCUIT_RESET_SECONDS * 1000)
+        : null,
+  };
+}
+
+/**
+ * Throw SERVICE_UNAVAILABLE while the circuit is open
+ */
+export function assertQueuerAvailable(): void {
+  if (getCircuitState() !== "open") {
+    return;
+  }
+
+  const retryAfterSeconds = Math.ceil(
+    (circuit.openedAt! + QUEUER_CIRCUIT_RESET_SECONDS * 1000 - Date.now()) /
+      1000,
+  );
+
+  throw new AppError(
+    ErrorCodes.SERVICE_UNAVAILABLE,
+    "Queuer service is temporarily unavailable, please try again later",
+    503,
+    { retryAfterSeconds },
+  );
+}
+
+/**
+ * Error from a single attempt
+ * retryable: the queuer cannot have started the job
+ * available: the queuer answered, so the failure does not count against the circuit
+ */
+class QueuerAttemptError extends Error {
+  constructor(
+    public appError: AppError,
+    public retryable: boolean,
+    public available = false,
+  ) {
+    super(appError.message);
+  }
+}
+
+/**
+ * Make one request to the queuer with a timeout
+ */
+async function attemptQueuerRequest(
+  url: string,
+  body: object,
+): Promise<QueuerResponse> {
+  let response: globalThis.Response;
+
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(QUEUER_TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    if (error.name === "TimeoutError") {
+      logger.error(`Queuer request timed out after ${QUEUER_TIMEOUT_MS}ms`);
+      throw new QueuerAttemptError(
+        new AppError(
+          ErrorCodes.QUEUER_ERROR,
+          "Queuer service timed out",
+          504,
+        ),
+        false,
+      );
+    }
+
+    const code = error.cause?.code || error.code;
+    logger.error(
+      `Failed to communicate with queuer: ${error.message}${code ? ` (${code})` : ""}`,
+    );
+    throw new QueuerAttemptError(
+      new AppError(
+        ErrorCodes.QUEUER_ERROR,
+        "Failed to communicate with queuer service",
+        500,
+        error.message,
+      ),
+      RETRYABLE_ERROR_CODES.includes(code),
+    );
+  }
+
+  // Check if response is OK
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`Queuer returned error (${response.status}): ${errorText}`);
+    throw new QueuerAttemptError(
+      new AppError(
+        ErrorCodes.QUEUER_ERROR,
+        "Queuer service returned an error",
+        response.status,
+        errorText,
+      ),
+      RETRYABLE_STATUSES.includes(response.status),
+      response.status < 500,
+    );
+  }
+
+  try {
+    return (await response.json()) as QueuerResponse;
+  } catch (error: any) {
+    logger.error(`Queuer returned a response that is not JSON: ${error.message}`);
+    throw new QueuerAttemptError(
+      new AppError(
+        ErrorCodes.QUEUER_ERROR,
+        "Invalid response format from queuer service",
+        500,
+        error.message,
+      ),
+      false,
+    );
+  }
+}
+
+/**
+ * POST a request to Mantrify01Queuer
+ * Fails fast while the circuit is open, retries with exponential backoff when the
+ * queuer could not have received the request, and validates the response.
+ *
+ * @param endpoint - Path on the queuer, e.g. "/mantras/new"
+ * @param body - JSON request body
+ * @returns The queuer's response (success is true)
+ */
+export async function postToQueuer(
+  endpoint: string,
+  body: object,
+): Promise<QueuerResponse> {
+  const queuerUrl = process.env.URL_MANTRIFY01QUEUER;
+  if (!queuerUrl) {
+    throw new AppError(
+      ErrorCodes.INTERNAL_ERROR,
+      "Queuer URL not configured",
+      500,
+    );
+  }
+
+  assertQueuerAvailable();
+
+  let responseData: QueuerResponse;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      responseData = await attemptQueuerRequest(`${queuerUrl}${endpoint}`, body);
+      recordSuccess();
+      break;
+    } catch (error: any) {
+      if (!(error instanceof QueuerAttemptError)) {
+        throw error;
+      }
+
+      if (error.available) {
+        recordSuccess();
+      } else {
+        recordFailure();
+      }
+
+      if (!error.retryable || attempt >= QUEUER_MAX_RETRIES) {
+        throw error.appError;
+      }
+
+      // The circuit may have opened on this failure
+      assertQueuerAvailable();
+
+      const delay = QUEUER_RETRY_BASE_DELAY_MS * 2 ** attempt;
+      logger.warn(
+        `Retrying queuer request in ${delay}ms (attempt ${attempt + 2} of ${QUEUER_MAX_RETRIES + 1})`,
+      );
+      await sleep(delay);
+    }
+  }
+
+  // Validate response structure
+  if (!responseData || typeof responseData.success !== "boolean") {
+    logger.error(
+      `Queuer returned invalid response format: ${JSON.stringify(responseData)}`,
+    );
+    throw new AppError(
+      ErrorCodes.QUEUER_ERROR,
+      "Invalid response format from queuer service",
+      500,
+      JSON.stringify(responseData),
+    );
+  }
+
+  // Check if queuer reported success
+  if (!responseData.success) {
+    logger.error(
+      `Queuer reported failure: ${responseData.message || "Unknown error"}`,
+    );
+    throw new AppError(
+      ErrorCodes.QUEUER_ERROR,
+      responseData.message || "Queuer failed to process mantra",
+      500,
+      JSON.stringify(responseData),
+    );
+  }
+
+  return responseData;
+}
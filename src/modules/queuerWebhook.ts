@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import { Queue } from "mantrify01db";
+import { AppError, ErrorCodes } from "./errorHandler";
+import {
+  QUEUE_STATUSES,
+  QueueStatus,
+  recordJobStatus,
+  recordJobCompletion,
+  recordJobFailure,
+} from "./mantraJobs";
+import logger from "./logger";
+
+export const QUEUER_SIGNATURE_HEADER = "X-Queuer-Signature";
+export const QUEUER_TIMESTAMP_HEADER = "X-Queuer-Timestamp";
+
+// Signed requests older (or newer) than this are rejected as replays
+const QUEUER_WEBHOOK_TOLERANCE_SECONDS = parseInt(
+  process.env.QUEUER_WEBHOOK_TOLERANCE_SECONDS || "300",
+  10,
+);
+
+export const QUEUER_EVENT_TYPES = ["status", "completed", "failed"] as const;
+export type QueuerEventType = (typeof QUEUER_EVENT_TYPES)[number];
+
+export interface QueuerEvent {
+  eventId: string;
+  type: QueuerEventType;
+  queueId: number;
+  status?: QueueStatus;
+  finalFilePath?: string;
+  mantraId?: number;
+  message?: string;
+}
+
+// Expiry time per processed event ID
+// IDs only need to be remembered while their timestamp is inside the tolerance window.
+const processedEventIds = new Map<string, number>();
+
+/**
+ * Sign a webhook body (hex HMAC-SHA256 of "<timestamp>.<body>")
+ *
+ * @param secret - Shared QUEUER_WEBHOOK_SECRET
+ * @param timestamp - Unix time in seconds sent in X-Queuer-Timestamp
+ * @param body - Raw request body
+ */
+export function signQueuerEvent(
+  secret: string,
+  timestamp: number,
+  body: string | Buffer,
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+}
+
+/**
+ * Verify a webhook request's signature and timestamp
+ *
+ * @param rawBody - Request body exactly as received
+ * @param timestampHeader - X-Queuer-Timestamp value
+ * @param signatureHeader - X-Queuer-Signature value ("sha256=<hex>")
+ */
+export function verifyQueuerSignature(
+  rawBody: Buffer,
+  timestampHeader: string | undefined,
+  signatureHeader: string | undefined,
+): void {
+  const secret = process.env.QUEUER_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new AppError(
+      ErrorCodes.SERVICE_UNAVAILABLE,
+      "Queuer webhook is not configured",
+      503,
+    );
+  }
+
+  if (!timestampHeader || !signatureHeader) {
+    throw new AppError(
+      ErrorCodes.AUTH_FAILED,
+      "Missing webhook signature",
+      401,
+    );
+  }
+
+  const timestamp = parseInt(timestampHeader, 10);
+
+  if (
+    isNaN(timestamp) ||
+    Math.abs(Date.now() / 1000 - timestamp) > QUEUER_WEBHOOK_TOLERANCE_SECONDS
+  ) {
+    throw new AppError(
+      ErrorCodes.AUTH_FAILED,
+      "Webhook timestamp is outside the allowed window",
+      401,
+    );
+  }
+
+  const expected = Buffer.from(
+    `sha256=${signQueuerEvent(secret, timestamp, rawBody)}`,
+  );
+  const received = Buffer.from(signatureHeader);
+
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    throw new AppError(
+      ErrorCodes.AUTH_FAILED,
+      "Invalid webhook signature",
+      401,
+    );
+  }
+}
+
+/**
+ * Parse and validate a webhook body
+ */
+export function parseQueuerEvent(rawBody: Buffer): QueuerEvent {
+  let body: any;
+
+  try {
+    body = JSON.parse(rawBody.toString("utf-8"));
+  } catch {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Request body must be valid JSON",
+      400,
+    );
+  }
+
+  if (!body || typeof body.eventId !== "string" || body.eventId.trim() === "") {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "eventId is required",
+      400,
+    );
+  }
+
+  if (!QUEUER_EVENT_TYPES.includes(body.type)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `type must be one of: ${QUEUER_EVENT_TYPES.join(", ")}`,
+      400,
+    );
+  }
+
+  if (!Number.isInteger(body.queueId)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "queueId must be an integer",
+      400,
+    );
+  }
+
+  if (body.type === "status" && !QUEUE_STATUSES.includes(body.status)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `status must be one of: ${QUEUE_STATUSES.join(", ")}`,
+      400,
+    );
+  }
+
+  if (body.mantraId !== undefined && !Number.isInteger(body.mantraId)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "mantraId must be an integer",
+      400,
+    );
+  }
+
+  return body as QueuerEvent;
+}
+
+/**
+ * Reject an event ID that was already processed, otherwise reserve it
+ *
+ * @returns A function that releases the ID if processing fails (so the queuer can retry)
+ */
+export function claimQueuerEventId(eventId: string): () => void {
+  const now = Date.now();
+
+  for (const [id, expiresAt] of processedEventIds) {
+    if (expiresAt <= now) {
+      processedEventIds.delete(id);
+    }
+  }
+
+  if (processedEventIds.has(eventId)) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "Webhook event was already processed",
+      409,
+    );
+  }
+
+  // Twice the tolerance covers timestamps on either side of the server's clock
+  processedEventIds.set(
+    eventId,
+    now + 2 * QUEUER_WEBHOOK_TOLERANCE_SECONDS * 1000,
+  );
+
+  return () => {
+    processedEventIds.delete(eventId);
+  };
+}
+
+/**
+ * Apply a verified queuer event to the job's state
+ */
+export async function applyQueuerEvent(event: QueuerEvent): Promise<void> {
+  const queue = await Queue.findByPk(event.queueId);
+
+  if (!queue) {
+    throw new AppError(ErrorCodes.NOT_FOUND, "Job not found", 404);
+  }
+
+  const userId = queue.get("userId") as number;
+
+  logger.info(
+    `Queuer event ${event.eventId}: ${event.type} for job ${event.queueId}`,
+  );
+
+  if (event.type === "status") {
+    recordJobStatus(event.queueId, event.status!);
+  } else if (event.type === "completed") {
+    await recordJobCompletion(event.queueId, userId, {
+      finalFilePath: event.finalFilePath,
+      mantraId: event.mantraId,
+    });
+  } else {
+    await recordJobFailure(
+      event.queueId,
+      userId,
+      event.message || "Queuer failed to process mantra",
+    );
+  }
+}
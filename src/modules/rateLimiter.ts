@@ -0,0 +1,156 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorCodes } from "./errorHandler";
+import logger from "./logger";
+
+/**
+ * Fixed-window counter kept in memory
+ * Counters reset on restart, which is acceptable for abuse protection
+ */
+interface RateLimitCounter {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Result of consuming one hit from a counter
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Options for the rateLimit middleware factory
+ */
+export interface RateLimitOptions {
+  // Counter namespace, e.g. "login:ip"
+  name: string;
+  windowMs: number;
+  max: number;
+  // Returns the key to count against, or null to skip limiting for this request
+  keyGenerator: (req: Request) => string | null;
+  message?: string | ((retryAfterSeconds: number) => string);
+}
+
+// Window and limits shared by the authentication endpoints
+export const RATE_LIMIT_WINDOW_MS =
+  parseInt(process.env.RATE_LIMIT_WINDOW_MINUTES || "15", 10) * 60 * 1000;
+export const RATE_LIMIT_MAX_PER_IP = parseInt(
+  process.env.RATE_LIMIT_MAX_PER_IP || "20",
+  10,
+);
+export const RATE_LIMIT_MAX_PER_ACCOUNT = parseInt(
+  process.env.RATE_LIMIT_MAX_PER_ACCOUNT || "10",
+  10,
+);
+
+const counters = new Map<string, RateLimitCounter>();
+
+// Remove expired counters every minute (unref so it never keeps the process alive)
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, counter] of counters) {
+    if (counter.resetAt <= now) {
+      counters.delete(key);
+    }
+  }
+}, 60 * 1000).unref();
+
+/**
+ * Count one hit against a key
+ *
+ * @param key - Counter key (namespace plus IP, email, user ID...)
+ * @param max - Hits allowed per window
+ * @param windowMs - Window length in milliseconds
+ * @returns RateLimitResult; allowed is false once the hit exceeds max
+ */
+export function consumeRateLimit(
+  key: string,
+  max: number,
+  windowMs: number,
+): RateLimitResult {
+  const now = Date.now();
+  let counter = counters.get(key);
+
+  if (!counter || counter.resetAt <= now) {
+    counter = { count: 0, resetAt: now + windowMs };
+    counters.set(key, counter);
+  }
+
+  counter.count++;
+
+  return {
+    allowed: counter.count <= max,
+    count: counter.count,
+    remaining: Math.max(0, max - counter.count),
+    retryAfterSeconds: Math.ceil((counter.resetAt - now) / 1000),
+  };
+}
+
+/**
+ * Reset a counter (e.g. after a successful login)
+ */
+export function resetRateLimit(key: string): void {
+  counters.delete(key);
+}
+
+/**
+ * Build the AppError returned when a limit is exceeded
+ * Sets the Retry-After header on the response
+ */
+export function rateLimitExceededError(
+  res: Response,
+  retryAfterSeconds: number,
+  message: string = "Too many requests. Please try again later.",
+  code: string = ErrorCodes.RATE_LIMIT_EXCEEDED,
+): AppError {
+  res.setHeader("Retry-After", retryAfterSeconds.toString());
+  return new AppError(code, message, 429, { retryAfterSeconds });
+}
+
+/**
+ * Express middleware factory limiting requests per key
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = options.keyGenerator(req);
+
+    if (!key) {
+      return next();
+    }
+
+    const result = consumeRateLimit(
+      `${options.name}:${key}`,
+      options.max,
+      options.windowMs,
+    );
+
+    if (!result.allowed) {
+      logger.warn(
+        `Rate limit ${options.name} exceeded for ${key}: ${req.method} ${req.originalUrl}`,
+      );
+      const message =
+        typeof options.message === "function"
+          ? options.message(result.retryAfterSeconds)
+          : options.message;
+      return next(
+        rateLimitExceededError(res, result.retryAfterSeconds, message),
+      );
+    }
+
+    next();
+  };
+};
+
+/**
+ * Key generator: client IP address
+ */
+export const ipKey = (req: Request): string | null => req.ip || null;
+
+/**
+ * Key generator: normalized email from the request body
+ */
+export const emailKey = (req: Request): string | null =>
+  typeof req.body?.email === "string" ? req.body.email.toLowerCase() : null;
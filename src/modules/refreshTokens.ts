@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import { RefreshToken } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { findActiveSession, revokeSession } from "./sessions";
+import logger from "./logger";
+
+// Refresh token lifetime in days
+const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_EXPIRES_DAYS || "30",
+  10,
+);
+
+/**
+ * Result of issuing or rotating a refresh token
+ */
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  userId: number;
+  sessionId: number;
+  expiresAt: Date;
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ * Only the hash is persisted so a database leak does not expose usable tokens
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new refresh token for a session
+ *
+ * @param userId - The user the token belongs to
+ * @param sessionId - The session the token keeps alive
+ * @returns IssuedRefreshToken containing the raw token (only returned once)
+ */
+export async function issueRefreshToken(
+  userId: number,
+  sessionId: number,
+): Promise<IssuedRefreshToken> {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  const expiresAt = new Date(
+    Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  await RefreshToken.create({
+    userId,
+    sessionId,
+    tokenHash: hashRefreshToken(refreshToken),
+    expiresAt,
+  });
+
+  return {
+    refreshToken,
+    userId,
+    sessionId,
+    expiresAt,
+  };
+}
+
+/**
+ * Revoke the session of a refresh token that was used twice
+ *
+ * @throws INVALID_TOKEN in all cases
+ */
+async function rejectReusedToken(record: RefreshToken): Promise<never> {
+  const revoked = await revokeSession(record.sessionId);
+  if (revoked) {
+    logger.warn(
+      `Revoked refresh token reused for user ${record.userId}; revoked session ${record.sessionId}`,
+    );
+  }
+  throw new AppError(
+    ErrorCodes.INVALID_TOKEN,
+    "Refresh token has been revoked. Please log in again.",
+    401,
+  );
+}
+
+/**
+ * Exchange a refresh token for a new one in the same session
+ *
+ * The presented token is revoked. Presenting a token that was already
+ * revoked means it was used twice, so the whole session is revoked.
+ *
+ * @param token - The raw refresh token sent by the client
+ * @returns IssuedRefreshToken for the replacement token
+ */
+export async function rotateRefreshToken(
+  token: string,
+): Promise<IssuedRefreshToken> {
+  const record = await RefreshToken.findOne({
+    where: { tokenHash: hashRefreshToken(token) },
+  });
+
+  if (!record) {
+    throw new AppError(
+      ErrorCodes.INVALID_TOKEN,
+      "Invalid refresh token",
+      401,
+    );
+  }
+
+  if (record.revokedAt) {
+    await rejectReusedToken(record);
+  }
+
+  if (record.expiresAt.getTime() <= Date.now()) {
+    throw new AppError(
+      ErrorCodes.TOKEN_EXPIRED,
+      "Refresh token has expired. Please log in again.",
+      401,
+    );
+  }
+
+  const session = await findActiveSession(record.sessionId, record.userId);
+
+  if (!session) {
+    throw new AppError(
+      ErrorCodes.INVALID_TOKEN,
+      "Session has been revoked. Please log in again.",
+      401,
+    );
+  }
+
+  // Revoke the token only if no concurrent refresh already did, so a token
+  // presented twice at the same time is still detected as reused
+  const [revokedCount] = await RefreshToken.update(
+    { revokedAt: new Date() },
+    { where: { id: record.id, revokedAt: null } },
+  );
+
+  if (revokedCount === 0) {
+    await rejectReusedToken(record);
+  }
+
+  await session.update({ lastSeenAt: new Date() });
+
+  return issueRefreshToken(record.userId, record.sessionId);
+}
+
+/**
+ * Revoke the session a refresh token belongs to (logout)
+ *
+ * @param token - The raw refresh token sent by the client
+ * @returns true if a matching token was found
+ */
+export async function revokeRefreshToken(token: string): Promise<boolean> {
+  const record = await RefreshToken.findOne({
+    where: { tokenHash: hashRefreshToken(token) },
+  });
+
+  if (!record) {
+    return false;
+  }
+
+  await revokeSession(record.sessionId);
+
+  return true;
+}
@@ -0,0 +1,200 @@
+import { Request } from "express";
+import { Op } from "sequelize";
+import { RefreshToken, UserSession } from "../models";
+import logger from "./logger";
+
+// Only write lastSeenAt when it is older than this, to avoid a write per request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Session details returned to clients
+ */
+export interface SessionSummary {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+/**
+ * Create a session for a successful login
+ *
+ * @param userId - The user logging in
+ * @param req - The login request (user agent and IP are recorded)
+ * @returns The created UserSession
+ */
+export async function createSession(
+  userId: number,
+  req: Request,
+): Promise<UserSession> {
+  const session = await UserSession.create({
+    userId,
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+    lastSeenAt: new Date(),
+  });
+
+  logger.info(`Session ${session.id} created for user ${userId}`);
+
+  return session;
+}
+
+/**
+ * Find a session that has not been revoked
+ *
+ * @param sessionId - The session ID
+ * @param userId - Optional owner check
+ * @returns The UserSession or null if missing or revoked
+ */
+export async function findActiveSession(
+  sessionId: number,
+  userId?: number,
+): Promise<UserSession | null> {
+  const session = await UserSession.findByPk(sessionId);
+
+  if (!session || session.revokedAt) {
+    return null;
+  }
+
+  if (userId !== undefined && session.userId !== userId) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Record activity on a session
+ * Writes are throttled to once per LAST_SEEN_UPDATE_INTERVAL_MS
+ */
+export async function touchSession(
+  session: UserSession,
+  req: Request,
+): Promise<void> {
+  const lastSeenAt = new Date(session.lastSeenAt).getTime();
+
+  if (Date.now() - lastSeenAt < LAST_SEEN_UPDATE_INTERVAL_MS) {
+    return;
+  }
+
+  await session.update({
+    lastSeenAt: new Date(),
+    ipAddress: req.ip || session.ipAddress,
+  });
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ *
+ * @param userId - The session owner
+ * @param currentSessionId - Session making the request (flagged as current)
+ */
+export async function listActiveSessions(
+  userId: number,
+  currentSessionId?: number,
+): Promise<SessionSummary[]> {
+  const sessions = await UserSession.findAll({
+    where: {
+      userId,
+      revokedAt: { [Op.is]: null },
+    },
+    order: [["lastSeenAt", "DESC"]],
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke sessions and every refresh token issued to them
+ *
+ * @param sessionIds - Sessions to revoke
+ * @returns Number of sessions revoked
+ */
+async function revokeSessionIds(sessionIds: number[]): Promise<number> {
+  if (sessionIds.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+
+  const [revokedCount] = await UserSession.update(
+    { revokedAt: now },
+    {
+      where: {
+        id: { [Op.in]: sessionIds },
+        revokedAt: { [Op.is]: null },
+      },
+    },
+  );
+
+  await RefreshToken.update(
+    { revokedAt: now },
+    {
+      where: {
+        sessionId: { [Op.in]: sessionIds },
+        revokedAt: { [Op.is]: null },
+      },
+    },
+  );
+
+  return revokedCount;
+}
+
+/**
+ * Revoke a single session
+ *
+ * @param sessionId - The session to revoke
+ * @returns true if an active session was revoked
+ */
+export async function revokeSession(sessionId: number): Promise<boolean> {
+  const revokedCount = await revokeSessionIds([sessionId]);
+
+  if (revokedCount > 0) {
+    logger.info(`Session ${sessionId} revoked`);
+  }
+
+  return revokedCount > 0;
+}
+
+/**
+ * Revoke all of a user's sessions ("log out everywhere")
+ *
+ * @param userId - The session owner
+ * @param exceptSessionId - Session to keep signed in (usually the current one)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: number,
+  exceptSessionId?: number,
+): Promise<number> {
+  const where: any = {
+    userId,
+    revokedAt: { [Op.is]: null },
+  };
+
+  if (exceptSessionId !== undefined) {
+    where.id = { [Op.ne]: exceptSessionId };
+  }
+
+  const sessions = await UserSession.findAll({ where, attributes: ["id"] });
+  const revokedCount = await revokeSessionIds(
+    sessions.map((session) => session.id),
+  );
+
+  logger.info(
+    `Revoked ${revokedCount} session(s) for user ${userId}${
+      exceptSessionId !== undefined ? ` (kept session ${exceptSessionId})` : ""
+    }`,
+  );
+
+  return revokedCount;
+}
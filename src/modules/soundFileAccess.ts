@@ -0,0 +1,104 @@
+import { Op, Transaction } from "sequelize";
+import { ContractUsersMantras } from "mantrify01db";
+import { ContractUsersSoundFiles } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { userHasPrivilegedPermission, Permission } from "./permissions";
+import logger from "./logger";
+
+/**
+ * Record the user who uploaded a sound file
+ */
+export async function recordSoundFileUploader(
+  soundFileId: number,
+  userId: number,
+  transaction?: Transaction,
+): Promise<void> {
+  await ContractUsersSoundFiles.create(
+    { soundFileId, userId },
+    { transaction },
+  );
+}
+
+/**
+ * Remove the uploader record of a deleted sound file
+ */
+export async function deleteSoundFileUploader(
+  soundFileId: number,
+): Promise<void> {
+  await ContractUsersSoundFiles.destroy({ where: { soundFileId } });
+}
+
+/**
+ * Get the uploader of a sound file
+ *
+ * @returns The uploader's user ID, or null if the upload was not tracked
+ */
+export async function getSoundFileUploaderId(
+  soundFileId: number,
+): Promise<number | null> {
+  const contract = await ContractUsersSoundFiles.findOne({
+    where: { soundFileId },
+  });
+
+  return contract ? contract.userId : null;
+}
+
+/**
+ * Throw unless the user uploaded the sound file or holds the given permission
+ *
+ * @param soundFileId - The sound file being changed
+ * @param userId - The user making the change
+ * @param permission - Permission that allows changing any sound file
+ * @param action - Verb used in the error message ("edit", "delete")
+ */
+export async function assertCanManageSoundFile(
+  soundFileId: number,
+  userId: number,
+  permission: Permission,
+  action: string,
+): Promise<void> {
+  const uploaderId = await getSoundFileUploaderId(soundFileId);
+
+  if (uploaderId === userId) {
+    return;
+  }
+
+  if (await userHasPrivilegedPermission(userId, permission)) {
+    return;
+  }
+
+  logger.warn(
+    `User ${userId} attempted to ${action} sound file ${soundFileId} uploaded by ${uploaderId ?? "unknown"}`,
+  );
+  throw new AppError(
+    ErrorCodes.PERMISSION_DENIED,
+    `Only the uploader or an admin can ${action} this sound file`,
+    403,
+  );
+}
+
+/**
+ * Count mantras in a list that are not owned by the given user
+ * Mantras without an owner record count as belonging to someone else.
+ */
+export async function countMantrasOwnedByOthers(
+  mantraIds: number[],
+  userId: number,
+): Promise<number> {
+  if (mantraIds.length === 0) {
+    return 0;
+  }
+
+  const ownMantras = await ContractUsersMantras.findAll({
+    where: {
+      userId,
+      mantraId: { [Op.in]: mantraIds },
+    },
+  });
+
+  const ownMantraIds = new Set(
+    ownMantras.map((contract) => contract.get("mantraId") as number),
+  );
+
+  return mantraIds.filter((mantraId) => !ownMantraIds.has(mantraId)).length;
+}
@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import { UserTwoFactor } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpauthUrl,
+} from "./totp";
+import logger from "./logger";
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Enrollment details returned by setup
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Code submitted by the user: a TOTP code or a single-use recovery code
+ */
+export interface TwoFactorCodeInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Whether admins must have 2FA enabled before admin routes let them through
+ */
+export const isAdminTwoFactorRequired = (): boolean =>
+  process.env.REQUIRE_ADMIN_2FA === "true";
+
+/**
+ * Throw TWO_FACTOR_REQUIRED when admin 2FA is required and the user has not enabled it
+ * Used by the admin middlewares after the isAdmin check
+ */
+export async function assertAdminTwoFactor(userId: number): Promise<void> {
+  if (!isAdminTwoFactorRequired() || (await isTwoFactorEnabled(userId))) {
+    return;
+  }
+
+  throw new AppError(
+    ErrorCodes.TWO_FACTOR_REQUIRED,
+    "Two-factor authentication must be enabled to access admin endpoints",
+    403,
+  );
+}
+
+const hashRecoveryCode = (code: string): string =>
+  crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+
+/**
+ * Generate a fresh set of recovery codes (format: xxxxx-xxxxx)
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes: string[] = [];
+
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString("hex");
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Check whether a user has confirmed 2FA enrollment
+ */
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const record = await UserTwoFactor.findOne({ where: { userId } });
+  return !!record?.enabledAt;
+}
+
+/**
+ * Start (or restart) 2FA enrollment with a new secret
+ *
+ * @param userId - The user enrolling
+ * @param email - Account name shown in the authenticator app
+ * @returns TwoFactorSetup with the secret and otpauth URL for the QR code
+ */
+export async function beginTwoFactorSetup(
+  userId: number,
+  email: string,
+): Promise<TwoFactorSetup> {
+  const existing = await UserTwoFactor.findOne({ where: { userId } });
+
+  if (existing?.enabledAt) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "Two-factor authentication is already enabled",
+      409,
+    );
+  }
+
+  const secret = generateTotpSecret();
+
+  if (existing) {
+    await existing.update({
+      secret,
+      recoveryCodeHashes: "[]",
+      lastUsedStep: null,
+    });
+  } else {
+    await UserTwoFactor.create({ userId, secret });
+  }
+
+  logger.info(`Two-factor setup started for user ${userId}`);
+
+  return {
+    secret,
+    otpauthUrl: buildOtpauthUrl(email, secret),
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ *
+ * @returns The recovery codes (only shown once)
+ */
+export async function confirmTwoFactorSetup(
+  userId: number,
+  code: string,
+): Promise<string[]> {
+  const record = await UserTwoFactor.findOne({ where: { userId } });
+
+  if (!record) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Two-factor setup has not been started",
+      400,
+    );
+  }
+
+  if (record.enabledAt) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      "Two-factor authentication is already enabled",
+      409,
+    );
+  }
+
+  const step = verifyTotpCode(record.secret, code);
+
+  if (step === null) {
+    throw new AppError(
+      ErrorCodes.AUTH_FAILED,
+      "Invalid two-factor code",
+      401,
+    );
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await record.update({
+    enabledAt: new Date(),
+    recoveryCodeHashes: JSON.stringify(hashes),
+    lastUsedStep: step,
+  });
+
+  logger.info(`Two-factor authentication enabled for user ${userId}`);
+
+  return codes;
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled
+ * TOTP codes cannot be reused and recovery codes are consumed.
+ *
+ * @returns true if the code is valid
+ */
+export async function verifyTwoFactorCode(
+  userId: number,
+  input: TwoFactorCodeInput,
+): Promise<boolean> {
+  const record = await UserTwoFactor.findOne({ where: { userId } });
+
+  if (!record || !record.enabledAt) {
+    return false;
+  }
+
+  if (input.code) {
+    const step = verifyTotpCode(record.secret, input.code);
+
+    // Reject codes at or before the last accepted step (replay)
+    if (
+      step === null ||
+      (record.lastUsedStep !== null && step <= record.lastUsedStep)
+    ) {
+      return false;
+    }
+
+    await record.update({ lastUsedStep: step });
+    return true;
+  }
+
+  if (input.recoveryCode) {
+    const hashes = JSON.parse(record.recoveryCodeHashes) as string[];
+    const hash = hashRecoveryCode(input.recoveryCode);
+
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+
+    await record.update({
+      recoveryCodeHashes: JSON.stringify(hashes.filter((h) => h !== hash)),
+    });
+
+    logger.info(
+      `Recovery code used for user ${userId} (${hashes.length - 1} remaining)`,
+    );
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Turn off 2FA and discard the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await UserTwoFactor.destroy({ where: { userId } });
+  logger.info(`Two-factor authentication disabled for user ${userId}`);
+}
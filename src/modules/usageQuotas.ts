@@ -0,0 +1,380 @@
+import { Op, fn, col } from "sequelize";
+import { MantraJobRequest, UserQuota } from "../models";
+import { AppError, ErrorCodes } from "./errorHandler";
+import { MantraElement } from "./mantraValidation";
+
+export const QUOTA_PERIODS = ["daily", "monthly"] as const;
+export type QuotaPeriod = (typeof QUOTA_PERIODS)[number];
+
+export const QUOTA_METRICS = ["jobs", "textCharacters", "audioMinutes"] as const;
+export type QuotaMetric = (typeof QUOTA_METRICS)[number];
+
+// UserQuotas columns, one per period and metric
+export const QUOTA_OVERRIDE_FIELDS = [
+  "dailyJobs",
+  "dailyTextCharacters",
+  "dailyAudioMinutes",
+  "monthlyJobs",
+  "monthlyTextCharacters",
+  "monthlyAudioMinutes",
+] as const;
+export type QuotaOverrideField = (typeof QUOTA_OVERRIDE_FIELDS)[number];
+
+export type QuotaOverrides = Record<QuotaOverrideField, number | null>;
+
+const parseLimit = (value: string | undefined, fallback: number): number =>
+  parseInt(value || String(fallback), 10);
+
+// Default limits for every user (configurable through environment variables)
+const DEFAULT_LIMITS: Record<QuotaPeriod, Record<QuotaMetric, number>> = {
+  daily: {
+    jobs: parseLimit(process.env.QUOTA_DAILY_JOBS, 20),
+    textCharacters: parseLimit(process.env.QUOTA_DAILY_TEXT_CHARACTERS, 10000),
+    audioMinutes: parseLimit(process.env.QUOTA_DAILY_AUDIO_MINUTES, 60),
+  },
+  monthly: {
+    jobs: parseLimit(process.env.QUOTA_MONTHLY_JOBS, 200),
+    textCharacters: parseLimit(
+      process.env.QUOTA_MONTHLY_TEXT_CHARACTERS,
+      100000,
+    ),
+    audioMinutes: parseLimit(process.env.QUOTA_MONTHLY_AUDIO_MINUTES, 600),
+  },
+};
+
+// Speaking rate used to estimate the audio length of text elements (at speed 1.0)
+const SPEECH_CHARACTERS_PER_SECOND = parseFloat(
+  process.env.SPEECH_CHARACTERS_PER_SECOND || "15",
+);
+
+// Names used in quota error messages
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  jobs: "job",
+  textCharacters: "text character",
+  audioMinutes: "audio minute",
+};
+
+/**
+ * Usage counted for a single job
+ */
+export interface MantraUsage {
+  textCharacters: number;
+  audioSeconds: number;
+}
+
+export interface QuotaMetricUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface QuotaPeriodUsage {
+  periodStart: Date;
+  resetsAt: Date;
+  jobs: QuotaMetricUsage;
+  textCharacters: QuotaMetricUsage;
+  audioMinutes: QuotaMetricUsage;
+}
+
+export interface UserUsage {
+  daily: QuotaPeriodUsage;
+  monthly: QuotaPeriodUsage;
+}
+
+/**
+ * Usage with the user's quota overrides, for admins
+ */
+export interface UserUsageWithOverrides extends UserUsage {
+  overrides: QuotaOverrides;
+}
+
+// Usage and limits of a period; audio minutes are not rounded
+interface PeriodTotals {
+  periodStart: Date;
+  resetsAt: Date;
+  used: Record<QuotaMetric, number>;
+  limits: Record<QuotaMetric, number>;
+}
+
+const overrideField = (
+  period: QuotaPeriod,
+  metric: QuotaMetric,
+): QuotaOverrideField =>
+  `${period}${metric.charAt(0).toUpperCase()}${metric.slice(1)}` as QuotaOverrideField;
+
+const roundMinutes = (minutes: number): number => Math.round(minutes * 10) / 10;
+
+// Amounts are compared unrounded; audio minutes are rounded only when shown
+const displayAmount = (metric: QuotaMetric, amount: number): number =>
+  metric === "audioMinutes" ? roundMinutes(amount) : amount;
+
+/**
+ * Start of the current period and of the next one (UTC days and calendar months)
+ */
+const getPeriodBounds = (
+  period: QuotaPeriod,
+  now = new Date(),
+): { periodStart: Date; resetsAt: Date } => {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === "daily") {
+    const day = now.getUTCDate();
+    return {
+      periodStart: new Date(Date.UTC(year, month, day)),
+      resetsAt: new Date(Date.UTC(year, month, day + 1)),
+    };
+  }
+
+  return {
+    periodStart: new Date(Date.UTC(year, month, 1)),
+    resetsAt: new Date(Date.UTC(year, month + 1, 1)),
+  };
+};
+
+/**
+ * Estimate the ElevenLabs characters and audio length of a mantraArray
+ * Pauses count their duration and text counts at SPEECH_CHARACTERS_PER_SECOND
+ * divided by the element's speed. Sound files are not counted (their length is
+ * not stored).
+ *
+ * @param mantraArray - Validated mantra elements
+ */
+export function estimateMantraUsage(
+  mantraArray: MantraElement[],
+): MantraUsage {
+  let textCharacters = 0;
+  let audioSeconds = 0;
+
+  for (const element of mantraArray) {
+    if (typeof element.text === "string") {
+      const speed = element.speed !== undefined ? Number(element.speed) : 1;
+      textCharacters += element.text.length;
+      audioSeconds += element.text.length / SPEECH_CHARACTERS_PER_SECOND / speed;
+    } else if (
+      element.pause_duration !== undefined &&
+      element.pause_duration !== null
+    ) {
+      audioSeconds += Number(element.pause_duration);
+    }
+  }
+
+  return { textCharacters, audioSeconds };
+}
+
+/**
+ * A user's quota overrides (null where the default applies)
+ */
+async function getQuotaOverrides(userId: number): Promise<QuotaOverrides> {
+  const quota = await UserQuota.findOne({ where: { userId } });
+
+  return Object.fromEntries(
+    QUOTA_OVERRIDE_FIELDS.map((field) => [field, quota ? quota[field] : null]),
+  ) as QuotaOverrides;
+}
+
+// Totals of the usage query, one aggregate per key
+interface UsageTotals {
+  jobs: number;
+  textCharacters: number;
+  audioSeconds: number;
+}
+
+/**
+ * Jobs, text characters and audio seconds submitted since a date
+ * Cancelled jobs are not counted; failed jobs are, since they may already have
+ * used ElevenLabs characters.
+ */
+async function getUsageSince(
+  userId: number,
+  since: Date,
+): Promise<UsageTotals> {
+  const totals = await MantraJobRequest.findOne({
+    attributes: [
+      [fn("COUNT", col("id")), "jobs"],
+      [fn("SUM", col("textCharacters")), "textCharacters"],
+      [fn("SUM", col("audioSeconds")), "audioSeconds"],
+    ],
+    where: {
+      userId,
+      cancelledAt: null,
+      createdAt: { [Op.gte]: since },
+    },
+  });
+
+  // SUM is null when no jobs match
+  const total = (name: keyof UsageTotals): number =>
+    Number(totals?.get(name)) || 0;
+
+  return {
+    jobs: total("jobs"),
+    textCharacters: total("textCharacters"),
+    audioSeconds: total("audioSeconds"),
+  };
+}
+
+/**
+ * A user's unrounded usage and limits for the current day and month
+ */
+async function getUsageTotals(
+  userId: number,
+  overrides: QuotaOverrides,
+): Promise<Record<QuotaPeriod, PeriodTotals>> {
+  const now = new Date();
+
+  const getPeriodTotals = async (
+    period: QuotaPeriod,
+  ): Promise<PeriodTotals> => {
+    const { periodStart, resetsAt } = getPeriodBounds(period, now);
+    const usage = await getUsageSince(userId, periodStart);
+    const limit = (metric: QuotaMetric): number =>
+      overrides[overrideField(period, metric)] ??
+      DEFAULT_LIMITS[period][metric];
+
+    return {
+      periodStart,
+      resetsAt,
+      used: {
+        jobs: usage.jobs,
+        textCharacters: usage.textCharacters,
+        audioMinutes: usage.audioSeconds / 60,
+      },
+      limits: {
+        jobs: limit("jobs"),
+        textCharacters: limit("textCharacters"),
+        audioMinutes: limit("audioMinutes"),
+      },
+    };
+  };
+
+  return {
+    daily: await getPeriodTotals("daily"),
+    monthly: await getPeriodTotals("monthly"),
+  };
+}
+
+const toPeriodUsage = ({
+  periodStart,
+  resetsAt,
+  used,
+  limits,
+}: PeriodTotals): QuotaPeriodUsage => {
+  const metricUsage = (metric: QuotaMetric): QuotaMetricUsage => ({
+    used: displayAmount(metric, used[metric]),
+    limit: limits[metric],
+    remaining: displayAmount(metric, Math.max(0, limits[metric] - used[metric])),
+  });
+
+  return {
+    periodStart,
+    resetsAt,
+    jobs: metricUsage("jobs"),
+    textCharacters: metricUsage("textCharacters"),
+    audioMinutes: metricUsage("audioMinutes"),
+  };
+};
+
+/**
+ * A user's usage and limits for the current day and month
+ *
+ * @param userId - The user whose usage is returned
+ */
+export async function getUserUsage(userId: number): Promise<UserUsage> {
+  const totals = await getUsageTotals(userId, await getQuotaOverrides(userId));
+
+  return {
+    daily: toPeriodUsage(totals.daily),
+    monthly: toPeriodUsage(totals.monthly),
+  };
+}
+
+/**
+ * A user's usage and limits with the overrides set by admins
+ *
+ * @param userId - The user whose usage is returned
+ */
+export async function getUserUsageWithOverrides(
+  userId: number,
+): Promise<UserUsageWithOverrides> {
+  const overrides = await getQuotaOverrides(userId);
+  const totals = await getUsageTotals(userId, overrides);
+
+  return {
+    daily: toPeriodUsage(totals.daily),
+    monthly: toPeriodUsage(totals.monthly),
+    overrides,
+  };
+}
+
+/**
+ * Throw QUOTA_EXCEEDED if submitting a mantra would exceed any of the user's quotas
+ * The error reports the first exceeded quota; retryAfterSeconds (sent as the
+ * Retry-After header) waits for every exceeded period to reset.
+ *
+ * @param userId - The user submitting the mantra
+ * @param usage - Estimated usage of the new job (see estimateMantraUsage)
+ */
+export async function assertWithinQuota(
+  userId: number,
+  usage: MantraUsage,
+): Promise<void> {
+  const current = await getUsageTotals(userId, await getQuotaOverrides(userId));
+  const requested: Record<QuotaMetric, number> = {
+    jobs: 1,
+    textCharacters: usage.textCharacters,
+    audioMinutes: usage.audioSeconds / 60,
+  };
+
+  const exceeded = QUOTA_PERIODS.flatMap((period) =>
+    QUOTA_METRICS.filter(
+      (metric) =>
+        current[period].used[metric] + requested[metric] >
+        current[period].limits[metric],
+    ).map((metric) => ({ period, metric })),
+  );
+
+  if (exceeded.length === 0) {
+    return;
+  }
+
+  // The mantra only fits once every exceeded period has reset
+  const retryAt = Math.max(
+    ...exceeded.map(({ period }) => current[period].resetsAt.getTime()),
+  );
+
+  const { period, metric } = exceeded[0];
+  const used = displayAmount(metric, current[period].used[metric]);
+  const limit = current[period].limits[metric];
+  const needed = displayAmount(metric, requested[metric]);
+  const periodLabel = period === "daily" ? "Daily" : "Monthly";
+
+  throw new AppError(
+    ErrorCodes.QUOTA_EXCEEDED,
+    `${periodLabel} ${METRIC_LABELS[metric]} quota exceeded (${used} of ${limit} used, this mantra needs ${needed})`,
+    429,
+    {
+      period,
+      metric,
+      used,
+      limit,
+      requested: needed,
+      resetsAt: current[period].resetsAt,
+      retryAfterSeconds: Math.ceil((retryAt - Date.now()) / 1000),
+    },
+  );
+}
+
+/**
+ * Change a user's quota overrides
+ * Fields that are not given keep their value; null restores the default.
+ *
+ * @param userId - The user whose limits change
+ * @param changes - New limits per field
+ */
+export async function setQuotaOverrides(
+  userId: number,
+  changes: Partial<QuotaOverrides>,
+): Promise<void> {
+  const [quota] = await UserQuota.findOrCreate({ where: { userId } });
+  await quota.update(changes);
+}
@@ -10,72 +10,40 @@ import { AppError, ErrorCodes } from "../modules/errorHandler";
 import logger from "../modules/logger";
 import { checkUserHasPublicMantras } from "../modules/userPublicMantras";
 import { deleteUser } from "../modules/deleteUser";
-import fs from "fs";
-import path from "path";
+import { listActiveSessions, revokeAllSessions } from "../modules/sessions";
+import { deleteMantra } from "../modules/mantraDeletion";
+import {
+  listCategories,
+  findCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from "../modules/mantraTags";
+import {
+  requirePermission,
+  getRolesForUser,
+  permissionsForRoles,
+  setUserRoles,
+  isRole,
+  ROLES,
+  ROLE_PERMISSIONS,
+} from "../modules/permissions";
+import {
+  getUserUsageWithOverrides,
+  setQuotaOverrides,
+  QUOTA_OVERRIDE_FIELDS,
+  QuotaOverrides,
+} from "../modules/usageQuotas";
 
 const router = Router();
 
 // Apply authentication middleware to all routes
 router.use(authMiddleware);
 
-// Middleware to check if user is admin
-const adminMiddleware = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const userId = req.user?.userId;
-
-    if (!userId) {
-      throw new AppError(
-        ErrorCodes.AUTH_FAILED,
-        "Authentication required",
-        401
-      );
-    }
-
-    // Find user and check isAdmin status
-    const user = await User.findByPk(userId);
-
-    if (!user) {
-      throw new AppError(ErrorCodes.AUTH_FAILED, "User not found", 401);
-    }
-
-    const isAdmin = user.get("isAdmin") as boolean;
-
-    if (!isAdmin) {
-      throw new AppError(
-        ErrorCodes.UNAUTHORIZED_ACCESS,
-        "Admin access required",
-        403
-      );
-    }
-
-    next();
-  } catch (error: any) {
-    if (error instanceof AppError) {
-      next(error);
-    } else {
-      logger.error(`Admin middleware error: ${error.message}`);
-      next(
-        new AppError(
-          ErrorCodes.INTERNAL_ERROR,
-          "Failed to verify admin status",
-          500,
-          error.message
-        )
-      );
-    }
-  }
-};
-
-// Apply admin middleware to all routes
-router.use(adminMiddleware);
-
 // GET /admin/users
 router.get(
   "/users",
+  requirePermission("users:read"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Query all users excluding password field
@@ -96,10 +64,12 @@ router.get(
         users.map(async (user) => {
           const userId = user.get("id") as number;
           const hasPublicMantras = await checkUserHasPublicMantras(userId);
+          const roles = await getRolesForUser(user);
 
           return {
             ...user.get({ plain: true }),
             hasPublicMantras,
+            roles,
           };
         })
       );
@@ -128,6 +98,7 @@ router.get(
 // GET /admin/mantras
 router.get(
   "/mantras",
+  requirePermission("mantras:read-all"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Get ALL mantras regardless of visibility
@@ -186,6 +157,7 @@ router.get(
 // DELETE /admin/mantras/:mantraId
 router.delete(
   "/mantras/:mantraId",
+  requirePermission("mantras:moderate"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const mantraId = parseInt(req.params.mantraId, 10);
@@ -210,54 +182,7 @@ router.delete(
         );
       }
 
-      // Get file path components from database
-      const dbFilePath = mantra.get("filePath") as string | null;
-      const filename = mantra.get("filename") as string | null;
-
-      // Delete MP3 file if it exists
-      if (filename) {
-        let fullFilePath: string;
-
-        if (dbFilePath) {
-          // If DB has directory path, combine with filename
-          fullFilePath = path.join(dbFilePath, filename);
-        } else {
-          // Fallback to PATH_MP3_OUTPUT + filename
-          const outputPath = process.env.PATH_MP3_OUTPUT;
-          if (!outputPath) {
-            throw new AppError(
-              ErrorCodes.INTERNAL_ERROR,
-              "Mantra output path not configured",
-              500
-            );
-          }
-          fullFilePath = path.join(outputPath, filename);
-        }
-
-        if (fs.existsSync(fullFilePath)) {
-          try {
-            fs.unlinkSync(fullFilePath);
-            logger.info(`Admin deleted mantra file: ${fullFilePath}`);
-          } catch (error: any) {
-            logger.error(
-              `Failed to delete mantra file ${fullFilePath}: ${error.message}`
-            );
-            throw new AppError(
-              ErrorCodes.INTERNAL_ERROR,
-              "Failed to delete mantra file",
-              500,
-              error.message
-            );
-          }
-        } else {
-          logger.warn(
-            `Mantra file not found for deletion: ${fullFilePath}. Proceeding with database deletion.`
-          );
-        }
-      }
-
-      // Delete mantra from database
-      await mantra.destroy();
+      await deleteMantra(mantra);
 
       logger.info(
         `Admin user ${req.user?.userId} deleted mantra ${mantraId}`
@@ -290,6 +215,7 @@ router.delete(
 // GET /admin/queuer
 router.get(
   "/queuer",
+  requirePermission("queue:read"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Query all queue records
@@ -321,6 +247,7 @@ router.get(
 // DELETE /admin/users/:userId
 router.delete(
   "/users/:userId",
+  requirePermission("users:manage"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const userId = parseInt(req.params.userId, 10);
@@ -370,4 +297,494 @@ router.delete(
   }
 );
 
+// GET /admin/users/:userId/sessions
+router.get(
+  "/users/:userId/sessions",
+  requirePermission("users:read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+
+      // Validate userId is a valid number
+      if (isNaN(userId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid user ID",
+          400
+        );
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      const sessions = await listActiveSessions(userId);
+
+      logger.info(
+        `Admin user ${req.user?.userId} retrieved ${sessions.length} session(s) for user ${userId}`
+      );
+
+      res.status(200).json({
+        userId,
+        sessions,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to retrieve sessions for user ${req.params.userId}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve sessions",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// DELETE /admin/users/:userId/sessions
+router.delete(
+  "/users/:userId/sessions",
+  requirePermission("users:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+
+      // Validate userId is a valid number
+      if (isNaN(userId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid user ID",
+          400
+        );
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      const revokedCount = await revokeAllSessions(userId);
+
+      logger.info(
+        `Admin user ${req.user?.userId} revoked ${revokedCount} session(s) for user ${userId}`
+      );
+
+      res.status(200).json({
+        message: "Sessions revoked successfully",
+        userId,
+        revokedCount,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to revoke sessions for user ${req.params.userId}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to revoke sessions",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// GET /admin/users/:userId/usage
+router.get(
+  "/users/:userId/usage",
+  requirePermission("users:read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+
+      // Validate userId is a valid number
+      if (isNaN(userId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid user ID",
+          400
+        );
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      const usage = await getUserUsageWithOverrides(userId);
+
+      res.status(200).json({
+        userId,
+        usage,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to retrieve usage for user ${req.params.userId}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve usage",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// PATCH /admin/users/:userId/quotas
+router.patch(
+  "/users/:userId/quotas",
+  requirePermission("quotas:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+      const body = req.body || {};
+
+      // Validate userId is a valid number
+      if (isNaN(userId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid user ID",
+          400
+        );
+      }
+
+      // Validate limits: a non-negative integer, or null to restore the default
+      const changes: Partial<QuotaOverrides> = {};
+      const invalidFields: string[] = [];
+
+      for (const field of QUOTA_OVERRIDE_FIELDS) {
+        const value = body[field];
+
+        if (value === undefined) {
+          continue;
+        }
+
+        if (value === null || (Number.isInteger(value) && value >= 0)) {
+          changes[field] = value;
+        } else {
+          invalidFields.push(field);
+        }
+      }
+
+      const unknownFields = Object.keys(body).filter(
+        (field) => !(QUOTA_OVERRIDE_FIELDS as readonly string[]).includes(field)
+      );
+
+      if (invalidFields.length > 0 || unknownFields.length > 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Limits must be non-negative integers or null",
+          400,
+          { invalidFields, unknownFields, allowedFields: QUOTA_OVERRIDE_FIELDS }
+        );
+      }
+
+      if (Object.keys(changes).length === 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "At least one limit is required",
+          400,
+          { allowedFields: QUOTA_OVERRIDE_FIELDS }
+        );
+      }
+
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      await setQuotaOverrides(userId, changes);
+      const usage = await getUserUsageWithOverrides(userId);
+
+      logger.info(
+        `Admin user ${req.user?.userId} changed quotas for user ${userId}: ${JSON.stringify(changes)}`
+      );
+
+      res.status(200).json({
+        message: "Quotas updated successfully",
+        userId,
+        usage,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to update quotas for user ${req.params.userId}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to update quotas",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// GET /admin/roles
+router.get(
+  "/roles",
+  requirePermission("roles:assign"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const roles = ROLES.map((role) => ({
+        role,
+        permissions: ROLE_PERMISSIONS[role],
+      }));
+
+      res.status(200).json({ roles });
+    } catch (error: any) {
+      logger.error(`Failed to retrieve roles: ${error.message}`);
+      next(
+        new AppError(
+          ErrorCodes.INTERNAL_ERROR,
+          "Failed to retrieve roles",
+          500,
+          error.message
+        )
+      );
+    }
+  }
+);
+
+// PUT /admin/users/:userId/roles
+router.put(
+  "/users/:userId/roles",
+  requirePermission("roles:assign"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+      const { roles } = req.body;
+
+      // Validate userId is a valid number
+      if (isNaN(userId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid user ID",
+          400
+        );
+      }
+
+      // Validate roles
+      if (!Array.isArray(roles)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Roles must be an array",
+          400,
+          { allowedRoles: ROLES }
+        );
+      }
+
+      const invalidRoles = roles.filter((role: unknown) => !isRole(role));
+
+      if (invalidRoles.length > 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid roles",
+          400,
+          { invalidRoles, allowedRoles: ROLES }
+        );
+      }
+
+      // Prevent admins from locking themselves out
+      if (userId === req.user?.userId && !roles.includes("admin")) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "You cannot remove your own admin role",
+          400
+        );
+      }
+
+      const updatedRoles = await setUserRoles(userId, roles);
+
+      logger.info(
+        `Admin user ${req.user?.userId} set roles for user ${userId}: ${updatedRoles.join(", ")}`
+      );
+
+      res.status(200).json({
+        message: "Roles updated successfully",
+        userId,
+        roles: updatedRoles,
+        permissions: permissionsForRoles(updatedRoles),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to update roles for user ${req.params.userId}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to update roles",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// GET /admin/categories
+router.get(
+  "/categories",
+  requirePermission("categories:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const categories = await listCategories();
+
+      res.status(200).json({ categories });
+    } catch (error: any) {
+      logger.error(`Failed to retrieve categories: ${error.message}`);
+      next(
+        new AppError(
+          ErrorCodes.INTERNAL_ERROR,
+          "Failed to retrieve categories",
+          500,
+          error.message
+        )
+      );
+    }
+  }
+);
+
+// POST /admin/categories
+router.post(
+  "/categories",
+  requirePermission("categories:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await createCategory(req.body);
+
+      logger.info(
+        `Admin user ${req.user?.userId} created category ${category.slug}`
+      );
+
+      res.status(201).json({
+        message: "Category created successfully",
+        category,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(`Failed to create category: ${error.message}`);
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to create category",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// PATCH /admin/categories/:slug
+router.patch(
+  "/categories/:slug",
+  requirePermission("categories:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await findCategory(req.params.slug);
+      const updatedCategory = await updateCategory(category, req.body);
+
+      logger.info(
+        `Admin user ${req.user?.userId} updated category ${category.slug}`
+      );
+
+      res.status(200).json({
+        message: "Category updated successfully",
+        category: updatedCategory,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to update category ${req.params.slug}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to update category",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// DELETE /admin/categories/:slug
+router.delete(
+  "/categories/:slug",
+  requirePermission("categories:manage"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await findCategory(req.params.slug);
+      const mantraCount = await deleteCategory(category);
+
+      logger.info(
+        `Admin user ${req.user?.userId} deleted category ${category.slug}`
+      );
+
+      res.status(200).json({
+        message: "Category deleted successfully",
+        slug: category.slug,
+        mantraCount,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to delete category ${req.params.slug}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to delete category",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
 export default router;
@@ -4,7 +4,7 @@ import path from "path";
 import multer from "multer";
 import { sequelize } from "mantrify01db";
 import { authMiddleware } from "../modules/authMiddleware";
-import { adminMiddleware } from "../modules/adminMiddleware";
+import { requirePermission } from "../modules/permissions";
 import { AppError, ErrorCodes } from "../modules/errorHandler";
 import logger from "../modules/logger";
 import {
@@ -79,13 +79,13 @@ const upload = multer({
   },
 });
 
-// Apply authentication and admin middleware to all routes
+// Apply authentication middleware to all routes
 router.use(authMiddleware);
-router.use(adminMiddleware);
 
 // POST /database/create-backup - Create database backup
 router.post(
   "/create-backup",
+  requirePermission("database:backup"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.info(
@@ -204,6 +204,7 @@ router.post(
 // GET /database/backups-list - List all backup files
 router.get(
   "/backups-list",
+  requirePermission("database:backup"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.info(
@@ -299,6 +300,7 @@ router.get(
 // GET /database/download-backup/:filename - Download backup file
 router.get(
   "/download-backup/:filename",
+  requirePermission("database:backup"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { filename } = req.params;
@@ -386,6 +388,7 @@ router.get(
 // DELETE /database/delete-backup/:filename - Delete backup file
 router.delete(
   "/delete-backup/:filename",
+  requirePermission("database:backup"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { filename } = req.params;
@@ -469,6 +472,7 @@ router.delete(
 // POST /database/replenish-database - Restore database from backup
 router.post(
   "/replenish-database",
+  requirePermission("database:restore"),
   requireProjectResources,
   upload.single("file"),
   async (req: Request, res: Response, next: NextFunction) => {
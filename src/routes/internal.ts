@@ -0,0 +1,66 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { AppError, ErrorCodes } from "../modules/errorHandler";
+import logger from "../modules/logger";
+import {
+  QUEUER_SIGNATURE_HEADER,
+  QUEUER_TIMESTAMP_HEADER,
+  verifyQueuerSignature,
+  parseQueuerEvent,
+  claimQueuerEventId,
+  applyQueuerEvent,
+} from "../modules/queuerWebhook";
+
+const router = Router();
+
+// POST /internal/queuer/events - Signed job events from Mantrify01Queuer
+// The signature covers the raw body, so it is read before any JSON parsing.
+router.post(
+  "/queuer/events",
+  express.raw({ type: "*/*", limit: "100kb" }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      // Verify signature before looking at the payload
+      verifyQueuerSignature(
+        rawBody,
+        req.get(QUEUER_TIMESTAMP_HEADER),
+        req.get(QUEUER_SIGNATURE_HEADER),
+      );
+
+      const event = parseQueuerEvent(rawBody);
+      const releaseEventId = claimQueuerEventId(event.eventId);
+
+      try {
+        await applyQueuerEvent(event);
+      } catch (error) {
+        releaseEventId();
+        throw error;
+      }
+
+      res.status(200).json({
+        message: "Event processed",
+        eventId: event.eventId,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        if (error.statusCode === 401) {
+          logger.warn(`Rejected queuer webhook from ${req.ip}: ${error.message}`);
+        }
+        next(error);
+      } else {
+        logger.error(`Failed to process queuer event: ${error.message}`);
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to process queuer event",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+export default router;
@@ -3,26 +3,126 @@ import {
   Mantra,
   ContractUsersMantras,
   ContractUserMantraListen,
-  sequelize,
 } from "mantrify01db";
-import { Op } from "sequelize";
 import { authMiddleware } from "../modules/authMiddleware";
 import { optionalAuthMiddleware } from "../modules/optionalAuthMiddleware";
 import { AppError, ErrorCodes } from "../modules/errorHandler";
 import logger from "../modules/logger";
+import { assertValidMantraArray } from "../modules/mantraValidation";
+import {
+  submitMantraJob,
+  getMantraJob,
+  listMantraJobs,
+  cancelMantraJob,
+  retryMantraJob,
+} from "../modules/mantraJobs";
+import { streamMantraJobEvents } from "../modules/jobEvents";
+import { idempotency } from "../modules/idempotency";
+import {
+  parseMantraListQuery,
+  listMantras,
+  mantraListQueryString,
+} from "../modules/mantraListing";
+import {
+  findAccessibleMantra,
+  findOwnedMantra,
+  getMantraFilePath,
+  MANTRA_VISIBILITIES,
+} from "../modules/mantraAccess";
+import {
+  createShareToken,
+  getActiveShareToken,
+  revokeShareTokens,
+} from "../modules/mantraShares";
+import {
+  remixMantra,
+  parseDraftFields,
+  parseDraftVersion,
+  createDraft,
+  listDrafts,
+  findOwnedDraft,
+  updateDraft,
+  deleteDraft,
+  insertDraftElement,
+  moveDraftElement,
+  deleteDraftElement,
+  submitDraft,
+  toDraftDetails,
+  countRemixes,
+  findRemixedFromMantraId,
+} from "../modules/mantraDrafts";
+import {
+  listMantraVersions,
+  submitMantraVersion,
+  findMantraVersion,
+  rollbackMantra,
+} from "../modules/mantraVersions";
+import { deleteMantra } from "../modules/mantraDeletion";
+import {
+  parseMantraTags,
+  parseMantraCategories,
+  setMantraTags,
+  setMantraCategories,
+  getMantraTagging,
+  parseTagCountLimit,
+  listTagCounts,
+} from "../modules/mantraTags";
+import { readMp3Info, AudioFileInfo } from "../modules/audioMetadata";
 import fs from "fs";
-import path from "path";
-
-// Interface for queuer response
-interface QueuerResponse {
-  success: boolean;
-  queueId?: number;
-  finalFilePath?: string;
-  message?: string;
-}
 
 const router = Router();
 
+// Longest lifetime of an expiring share link (one year)
+const SHARE_LINK_MAX_HOURS = 24 * 365;
+
+// Share link token sent as ?share=<token>
+const getShareToken = (req: Request): string | null =>
+  typeof req.query.share === "string" && req.query.share !== ""
+    ? req.query.share
+    : null;
+
+/**
+ * Send an MP3 file, honoring a Range header for seeking
+ */
+const sendMp3File = (
+  req: Request,
+  res: Response,
+  fullFilePath: string,
+  fileSize: number,
+): void => {
+  // Parse range header for seeking support
+  const range = req.headers.range;
+
+  if (range) {
+    // Parse range header (e.g., "bytes=0-1023")
+    const parts = range.replace(/bytes=/, "").split("-");
+    const start = parseInt(parts[0], 10);
+    const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
+
+    const chunkSize = end - start + 1;
+    const fileStream = fs.createReadStream(fullFilePath, { start, end });
+
+    res.writeHead(206, {
+      "Content-Range": `bytes ${start}-${end}/${fileSize}`,
+      "Accept-Ranges": "bytes",
+      "Content-Length": chunkSize,
+      "Content-Type": "audio/mpeg",
+    });
+
+    fileStream.pipe(res);
+  } else {
+    // No range request, send entire file
+    res.writeHead(200, {
+      "Content-Length": fileSize,
+      "Content-Type": "audio/mpeg",
+      "Accept-Ranges": "bytes",
+    });
+
+    const fileStream = fs.createReadStream(fullFilePath);
+    fileStream.pipe(res);
+  }
+};
+
 // GET /mantras/:id/stream - Stream mantra MP3 file (optional authentication)
 router.get(
   "/:id/stream",
@@ -40,77 +140,12 @@ router.get(
         );
       }
 
-      // Find mantra in database
-      const mantra = await Mantra.findByPk(mantraId);
-
-      if (!mantra) {
-        throw new AppError(
-          ErrorCodes.MANTRA_NOT_FOUND,
-          "Mantra not found",
-          404,
-        );
-      }
-
-      const visibility = mantra.get("visibility") as string;
-
-      // Authorization check for private mantras
-      if (visibility === "private") {
-        // Private mantras require authentication
-        if (!req.user) {
-          throw new AppError(
-            ErrorCodes.AUTH_FAILED,
-            "Authentication required to access private mantras",
-            401,
-          );
-        }
-
-        // Verify ownership via ContractUsersMantras
-        const ownership = await ContractUsersMantras.findOne({
-          where: {
-            userId: req.user.userId,
-            mantraId: mantraId,
-          },
-        });
-
-        if (!ownership) {
-          throw new AppError(
-            ErrorCodes.UNAUTHORIZED_ACCESS,
-            "You do not have permission to access this mantra",
-            403,
-          );
-        }
-      }
-
-      // Get file path components from database
-      const dbFilePath = mantra.get("filePath") as string | null; // Directory path with trailing slash
-      const filename = mantra.get("filename") as string | null;
-
-      if (!filename) {
-        throw new AppError(
-          ErrorCodes.INTERNAL_ERROR,
-          "Mantra file information not found",
-          500,
-        );
-      }
-
-      // Construct full file path
-      let fullFilePath: string;
-
-      if (dbFilePath) {
-        // If DB has directory path, combine with filename
-        fullFilePath = path.join(dbFilePath, filename);
-      } else {
-        // Fallback to PATH_MP3_OUTPUT + filename
-        const outputPath = process.env.PATH_MP3_OUTPUT;
-        if (!outputPath) {
-          throw new AppError(
-            ErrorCodes.INTERNAL_ERROR,
-            "Mantra output path not configured",
-            500,
-          );
-        }
-        fullFilePath = path.join(outputPath, filename);
-      }
+      const mantra = await findAccessibleMantra(
+        mantraId,
+        req.user?.userId ?? null,
+        getShareToken(req),
+      );
+      const fullFilePath = getMantraFilePath(mantra);
 
       // Verify file exists
       if (!fs.existsSync(fullFilePath)) {
@@ -180,39 +215,7 @@ router.get(
       }
 
       // Get file size from stats we already have
-      const fileSize = fileStats.size;
-
-      // Parse range header for seeking support
-      const range = req.headers.range;
-
-      if (range) {
-        // Parse range header (e.g., "bytes=0-1023")
-        const parts = range.replace(/bytes=/, "").split("-");
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-
-        const chunkSize = end - start + 1;
-        const fileStream = fs.createReadStream(fullFilePath, { start, end });
-
-        res.writeHead(206, {
-          "Content-Range": `bytes ${start}-${end}/${fileSize}`,
-          "Accept-Ranges": "bytes",
-          "Content-Length": chunkSize,
-          "Content-Type": "audio/mpeg",
-        });
-
-        fileStream.pipe(res);
-      } else {
-        // No range request, send entire file
-        res.writeHead(200, {
-          "Content-Length": fileSize,
-          "Content-Type": "audio/mpeg",
-          "Accept-Ranges": "bytes",
-        });
-
-        const fileStream = fs.createReadStream(fullFilePath);
-        fileStream.pipe(res);
-      }
+      sendMp3File(req, res, fullFilePath, fileStats.size);
     } catch (error: any) {
       if (error instanceof AppError) {
         next(error);
@@ -239,145 +242,164 @@ router.get(
   optionalAuthMiddleware,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      let mantras: any[];
+      const options = parseMantraListQuery(
+        req.query,
+        req.user?.userId ?? null,
+      );
+      const { mantras, total } = await listMantras(options);
 
-      if (req.user) {
-        // Authenticated user - get public mantras + user's private mantras
-        const userMantras = await ContractUsersMantras.findAll({
-          where: {
-            userId: req.user.userId,
-          },
-        });
+      const totalPages = Math.ceil(total / options.limit);
+      const pageLink = (page: number) =>
+        `${req.baseUrl}${req.path}?${mantraListQueryString(options, page)}`;
 
-        const userMantraIds = userMantras.map(
-          (contract) => contract.get("mantraId") as number,
-        );
+      logger.info(
+        `Mantras retrieved${req.user ? ` for user ${req.user.userId}` : " anonymously"}: ${mantras.length} of ${total} mantras (page ${options.page})`,
+      );
 
-        // Get all public mantras with ownership info
-        const publicMantras = await Mantra.findAll({
-          where: {
-            visibility: { [Op.ne]: "private" },
-          },
-          include: [
-            {
-              model: ContractUsersMantras,
-              as: "contractUsersMantras",
-              required: false,
-              attributes: ["userId"],
-            },
-          ],
-        });
+      res.status(200).json({
+        mantrasArray: mantras,
+        pagination: {
+          page: options.page,
+          limit: options.limit,
+          total,
+          totalPages,
+          next: options.page < totalPages ? pageLink(options.page + 1) : null,
+          previous:
+            options.page > 1
+              ? pageLink(Math.min(options.page - 1, Math.max(totalPages, 1)))
+              : null,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(`Failed to retrieve mantras: ${error.message}`);
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve mantras",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
 
-        // Get user's private mantras with ownership info
-        const userPrivateMantras = await Mantra.findAll({
-          where: {
-            id: { [Op.in]: userMantraIds },
-            visibility: "private",
-          },
-          include: [
-            {
-              model: ContractUsersMantras,
-              as: "contractUsersMantras",
-              required: false,
-              attributes: ["userId"],
-            },
-          ],
-        });
+// GET /mantras/tags - Categories and tags with the number of public mantras using them
+router.get(
+  "/tags",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = parseTagCountLimit(req.query.limit);
+      const { categories, tags } = await listTagCounts(limit);
 
-        // Combine and deduplicate
-        const allMantras = [...publicMantras, ...userPrivateMantras];
-        const uniqueMantraIds = new Set<number>();
-        mantras = allMantras.filter((mantra) => {
-          const id = mantra.get("id") as number;
-          if (uniqueMantraIds.has(id)) {
-            return false;
-          }
-          uniqueMantraIds.add(id);
-          return true;
-        });
+      res.status(200).json({ categories, tags });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
       } else {
-        // Anonymous user - get only public mantras with ownership info
-        mantras = await Mantra.findAll({
-          where: {
-            visibility: { [Op.ne]: "private" },
-          },
-          include: [
-            {
-              model: ContractUsersMantras,
-              as: "contractUsersMantras",
-              required: false,
-              attributes: ["userId"],
-            },
-          ],
-        });
+        logger.error(`Failed to retrieve mantra tags: ${error.message}`);
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve mantra tags",
+            500,
+            error.message,
+          ),
+        );
       }
+    }
+  },
+);
+
+// GET /mantras/:id - Mantra details (optional authentication)
+// Only numeric IDs match, so /mantras/jobs and other routes below are not shadowed.
+router.get(
+  "/:id(\\d+)",
+  optionalAuthMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+      const userId = req.user?.userId ?? null;
 
-      // Get favorite counts for all mantras
-      const mantraIds = mantras.map((mantra) => mantra.get("id") as number);
+      const mantra = await findAccessibleMantra(
+        mantraId,
+        userId,
+        getShareToken(req),
+      );
 
-      const favoriteCounts = await ContractUserMantraListen.findAll({
-        where: {
-          mantraId: { [Op.in]: mantraIds },
-          favorite: true,
-        },
-        attributes: [
-          "mantraId",
-          [sequelize.fn("COUNT", sequelize.col("id")), "favoriteCount"],
-        ],
-        group: ["mantraId"],
-        raw: true,
+      // Owner and favorite count
+      const ownership = await ContractUsersMantras.findOne({
+        where: { mantraId },
+        attributes: ["userId"],
       });
-
-      // Create a map of mantraId to favoriteCount for quick lookup
-      const favoriteCountMap = new Map<number, number>();
-      favoriteCounts.forEach((record: any) => {
-        favoriteCountMap.set(record.mantraId, parseInt(record.favoriteCount, 10));
+      const favoriteCount = await ContractUserMantraListen.count({
+        where: { mantraId, favorite: true },
       });
 
-      const mantrasWithListens = mantras.map((mantra) => {
-        const plainMantra = mantra.get({ plain: true }) as {
-          id: number;
-          listenCount?: number | null;
-          contractUsersMantras?: Array<{ userId: number }>;
-        };
+      // Remix attribution and count
+      const remixedFromMantraId = await findRemixedFromMantraId(mantraId);
+      const remixCount = await countRemixes(mantraId);
 
-        // Extract ownerUserId from contractUsersMantras relationship
-        let ownerUserId: number | string = "missing";
-        if (
-          plainMantra.contractUsersMantras &&
-          plainMantra.contractUsersMantras.length > 0
-        ) {
-          ownerUserId = plainMantra.contractUsersMantras[0].userId;
-        }
+      // Tags and categories
+      const { tags, categories } = await getMantraTagging(mantraId);
 
-        // Remove the contractUsersMantras array from response
-        const { contractUsersMantras: _, ...mantraWithoutContract } =
-          plainMantra;
+      // The caller's own listens and favorite
+      let userState: { favorite: boolean; listenCount: number } | null = null;
 
-        return {
-          ...mantraWithoutContract,
-          listenCount: plainMantra.listenCount ?? 0,
-          favoriteCount: favoriteCountMap.get(plainMantra.id) ?? 0,
-          ownerUserId,
+      if (userId !== null) {
+        const listenRecord = await ContractUserMantraListen.findOne({
+          where: { userId, mantraId },
+        });
+
+        userState = {
+          favorite: Boolean(listenRecord?.get("favorite")),
+          listenCount: (listenRecord?.get("listenCount") as number) || 0,
         };
-      });
+      }
 
-      logger.info(
-        `Mantras retrieved${req.user ? ` for user ${req.user.userId}` : " anonymously"}: ${mantrasWithListens.length} mantras`,
-      );
+      // Audio file size and duration (null if the file is missing)
+      let audio: AudioFileInfo | null = null;
+      const fullFilePath = getMantraFilePath(mantra);
+
+      if (fs.existsSync(fullFilePath) && fs.statSync(fullFilePath).isFile()) {
+        audio = await readMp3Info(fullFilePath);
+      } else {
+        logger.warn(`Mantra file not found: ${fullFilePath}`);
+      }
+
+      const plainMantra = mantra.get({ plain: true });
 
       res.status(200).json({
-        mantrasArray: mantrasWithListens,
+        mantra: {
+          ...plainMantra,
+          listenCount: plainMantra.listenCount ?? 0,
+          favoriteCount,
+          remixCount,
+          remixedFromMantraId,
+          tags,
+          categories,
+          ownerUserId: ownership
+            ? (ownership.get("userId") as number)
+            : "missing",
+          audio,
+          userState,
+        },
       });
     } catch (error: any) {
       if (error instanceof AppError) {
         next(error);
       } else {
-        logger.error(`Failed to retrieve mantras: ${error.message}`);
+        logger.error(
+          `Failed to retrieve mantra ${req.params.id}: ${error.message}`,
+        );
         next(
           new AppError(
             ErrorCodes.INTERNAL_ERROR,
-            "Failed to retrieve mantras",
+            "Failed to retrieve mantra",
             500,
             error.message,
           ),
@@ -484,6 +506,7 @@ router.post(
 // POST /mantras/create
 router.post(
   "/create",
+  idempotency("mantras:create"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { mantraArray } = req.body;
@@ -497,6 +520,9 @@ router.post(
         );
       }
 
+      // Validate every element before involving the queuer
+      await assertValidMantraArray(mantraArray);
+
       // Log complete request in development mode
       if (process.env.NODE_ENV === "development") {
         logger.info(
@@ -504,96 +530,100 @@ router.post(
         );
       }
 
-      // Get queuer URL from environment
-      const queuerUrl = process.env.URL_MANTRIFY01QUEUER;
-      if (!queuerUrl) {
-        throw new AppError(
-          ErrorCodes.INTERNAL_ERROR,
-          "Queuer URL not configured",
-          500,
-        );
-      }
+      logger.info(
+        `User ${req.user!.userId} creating mantra with ${mantraArray.length} elements`,
+      );
+
+      // Hand the mantra to the queuer; processing continues in the background
+      const queueId = await submitMantraJob(req.user!.userId, mantraArray);
 
       logger.info(
-        `User ${req.user?.userId} creating mantra with ${mantraArray.length} elements`,
+        `Mantra job accepted for user ${req.user!.userId}: queueId=${queueId}`,
       );
 
-      // Send request to queuer
-      const queuerEndpoint = `${queuerUrl}/mantras/new`;
-      const response = await fetch(queuerEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          userId: req.user?.userId,
-          mantraArray,
-        }),
+      res.status(202).location(`/mantras/jobs/${queueId}`).json({
+        message: "Mantra creation queued",
+        queueId,
+        status: "queued",
       });
-
-      // Check if response is OK
-      if (!response.ok) {
-        const errorText = await response.text();
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
         logger.error(
-          `Queuer returned error (${response.status}): ${errorText}`,
+          `Failed to create mantra for user ${req.user?.userId}: ${error.message}`,
         );
-        throw new AppError(
-          ErrorCodes.QUEUER_ERROR,
-          "Queuer service returned an error",
-          response.status,
-          errorText,
+        next(
+          new AppError(
+            ErrorCodes.QUEUER_ERROR,
+            "Failed to communicate with queuer service",
+            500,
+            error.message,
+          ),
         );
       }
+    }
+  },
+);
 
-      // Parse JSON response
-      const responseData = (await response.json()) as QueuerResponse;
+// GET /mantras/jobs
+router.get(
+  "/jobs",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const jobs = await listMantraJobs(req.user!.userId);
 
-      // Validate response structure
-      if (!responseData || typeof responseData.success !== "boolean") {
+      res.status(200).json({ jobs });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
         logger.error(
-          `Queuer returned invalid response format: ${JSON.stringify(responseData)}`,
+          `Failed to list mantra jobs for user ${req.user?.userId}: ${error.message}`,
         );
-        throw new AppError(
-          ErrorCodes.QUEUER_ERROR,
-          "Invalid response format from queuer service",
-          500,
-          JSON.stringify(responseData),
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve jobs",
+            500,
+            error.message,
+          ),
         );
       }
+    }
+  },
+);
 
-      // Check if queuer reported success
-      if (!responseData.success) {
-        logger.error(
-          `Queuer reported failure: ${responseData.message || "Unknown error"}`,
-        );
+// GET /mantras/jobs/:queueId
+router.get(
+  "/jobs/:queueId",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const queueId = parseInt(req.params.queueId, 10);
+
+      // Validate ID
+      if (isNaN(queueId)) {
         throw new AppError(
-          ErrorCodes.QUEUER_ERROR,
-          responseData.message || "Queuer failed to process mantra",
-          500,
-          JSON.stringify(responseData),
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid queue ID",
+          400,
         );
       }
 
-      logger.info(
-        `Mantra successfully created for user ${req.user?.userId}: queueId=${responseData.queueId}, file=${responseData.finalFilePath}`,
-      );
+      const job = await getMantraJob(queueId, req.user!.userId);
 
-      res.status(201).json({
-        message: "Mantra created successfully",
-        queueId: responseData.queueId,
-        filePath: responseData.finalFilePath,
-      });
+      res.status(200).json({ job });
     } catch (error: any) {
       if (error instanceof AppError) {
         next(error);
       } else {
         logger.error(
-          `Failed to create mantra for user ${req.user?.userId}: ${error.message}`,
+          `Failed to get mantra job ${req.params.queueId}: ${error.message}`,
         );
         next(
           new AppError(
-            ErrorCodes.QUEUER_ERROR,
-            "Failed to communicate with queuer service",
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve job",
             500,
             error.message,
           ),
@@ -603,49 +633,181 @@ router.post(
   },
 );
 
-// PATCH /mantras/update/:id
-router.patch(
-  "/update/:id",
+// GET /mantras/jobs/:queueId/events - Server-Sent Events stream of job progress
+router.get(
+  "/jobs/:queueId/events",
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const mantraId = parseInt(req.params.id, 10);
-      const { title, description, visibility } = req.body;
+      const queueId = parseInt(req.params.queueId, 10);
 
       // Validate ID
-      if (isNaN(mantraId)) {
+      if (isNaN(queueId)) {
         throw new AppError(
           ErrorCodes.VALIDATION_ERROR,
-          "Invalid mantra ID",
+          "Invalid queue ID",
           400,
         );
       }
 
-      // Check if at least one field is provided
-      if (
-        title === undefined &&
-        description === undefined &&
-        visibility === undefined
-      ) {
+      // Authorize before opening the stream so errors are returned as JSON
+      const job = await getMantraJob(queueId, req.user!.userId);
+
+      logger.info(
+        `User ${req.user!.userId} subscribed to events for job ${queueId}`,
+      );
+
+      streamMantraJobEvents(job, res);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to open events for mantra job ${req.params.queueId}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve job",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// DELETE /mantras/jobs/:queueId - Cancel a job that is still queued
+router.delete(
+  "/jobs/:queueId",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const queueId = parseInt(req.params.queueId, 10);
+
+      // Validate ID
+      if (isNaN(queueId)) {
         throw new AppError(
           ErrorCodes.VALIDATION_ERROR,
-          "At least one field (title, description, or visibility) must be provided",
+          "Invalid queue ID",
           400,
         );
       }
 
-      // Validate visibility if provided
-      if (visibility !== undefined && visibility !== null) {
-        if (visibility !== "public" && visibility !== "private") {
-          throw new AppError(
-            ErrorCodes.VALIDATION_ERROR,
-            "Visibility must be either 'public' or 'private'",
-            400,
-          );
-        }
-      }
+      const job = await cancelMantraJob(queueId, req.user!.userId);
 
-      // Validate title if provided (not empty)
-      if (title !== undefined && title !== null) {
+      res.status(200).json({
+        message: "Job cancelled successfully",
+        job,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to cancel mantra job ${req.params.queueId}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to cancel job",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/jobs/:queueId/retry - Resubmit a failed job
+router.post(
+  "/jobs/:queueId/retry",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const queueId = parseInt(req.params.queueId, 10);
+
+      // Validate ID
+      if (isNaN(queueId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid queue ID",
+          400,
+        );
+      }
+
+      const newQueueId = await retryMantraJob(queueId, req.user!.userId);
+
+      res.status(202).location(`/mantras/jobs/${newQueueId}`).json({
+        message: "Mantra creation queued",
+        queueId: newQueueId,
+        status: "queued",
+        retryOfQueueId: queueId,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to retry mantra job ${req.params.queueId}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.QUEUER_ERROR,
+            "Failed to communicate with queuer service",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// PATCH /mantras/update/:id
+router.patch(
+  "/update/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+      const { title, description, visibility, tags, categories } = req.body;
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      // Check if at least one field is provided
+      if (
+        title === undefined &&
+        description === undefined &&
+        visibility === undefined &&
+        tags === undefined &&
+        categories === undefined
+      ) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "At least one field (title, description, visibility, tags, or categories) must be provided",
+          400,
+        );
+      }
+
+      // Validate visibility if provided
+      if (visibility !== undefined && visibility !== null) {
+        if (!(MANTRA_VISIBILITIES as readonly unknown[]).includes(visibility)) {
+          throw new AppError(
+            ErrorCodes.VALIDATION_ERROR,
+            "Visibility must be 'public', 'unlisted' or 'private'",
+            400,
+          );
+        }
+      }
+
+      // Validate title if provided (not empty)
+      if (title !== undefined && title !== null) {
         if (typeof title !== "string" || title.trim() === "") {
           throw new AppError(
             ErrorCodes.VALIDATION_ERROR,
@@ -655,6 +817,14 @@ router.patch(
         }
       }
 
+      // Validate tags and categories if provided (an empty array clears them)
+      const newTags =
+        tags !== undefined && tags !== null ? parseMantraTags(tags) : null;
+      const newCategories =
+        categories !== undefined && categories !== null
+          ? await parseMantraCategories(categories)
+          : null;
+
       // Verify ownership via ContractUsersMantras
       const ownership = await ContractUsersMantras.findOne({
         where: {
@@ -701,9 +871,24 @@ router.patch(
         updateData.visibility = visibility;
       }
 
+      const wasUnlisted = mantra.get("visibility") === "unlisted";
+
       // Update mantra
       await mantra.update(updateData);
 
+      if (newTags !== null) {
+        await setMantraTags(mantraId, newTags);
+      }
+
+      if (newCategories !== null) {
+        await setMantraCategories(mantraId, newCategories);
+      }
+
+      // Share links only work while the mantra is unlisted
+      if (wasUnlisted && mantra.get("visibility") !== "unlisted") {
+        await revokeShareTokens(mantraId);
+      }
+
       // Reload to get updated values
       await mantra.reload();
 
@@ -713,7 +898,10 @@ router.patch(
 
       res.status(200).json({
         message: "Mantra updated successfully",
-        mantra: mantra.get({ plain: true }),
+        mantra: {
+          ...mantra.get({ plain: true }),
+          ...(await getMantraTagging(mantraId)),
+        },
       });
     } catch (error: any) {
       if (error instanceof AppError) {
@@ -735,12 +923,13 @@ router.patch(
   },
 );
 
-// DELETE /mantras/:id
-router.delete(
-  "/:id",
+// POST /mantras/:id/versions - Generate a new audio version from a new mantraArray
+router.post(
+  "/:id/versions",
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const mantraId = parseInt(req.params.id, 10);
+      const { mantraArray } = req.body ?? {};
 
       // Validate ID
       if (isNaN(mantraId)) {
@@ -751,64 +940,859 @@ router.delete(
         );
       }
 
-      // Verify ownership via ContractUsersMantras
-      const ownership = await ContractUsersMantras.findOne({
-        where: {
-          userId: req.user?.userId,
-          mantraId: mantraId,
-        },
+      // Validate mantraArray exists
+      if (!mantraArray || !Array.isArray(mantraArray)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "mantraArray is required and must be an array",
+          400,
+        );
+      }
+
+      const mantra = await findOwnedMantra(mantraId, req.user!.userId);
+
+      // Validate every element before involving the queuer
+      await assertValidMantraArray(mantraArray);
+
+      const { version, queueId } = await submitMantraVersion(
+        mantra,
+        req.user!.userId,
+        mantraArray,
+      );
+
+      res.status(202).location(`/mantras/jobs/${queueId}`).json({
+        message: "Mantra version queued",
+        mantraId,
+        version,
+        queueId,
+        status: "queued",
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to create a version of mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.QUEUER_ERROR,
+            "Failed to communicate with queuer service",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// GET /mantras/:id/versions
+router.get(
+  "/:id/versions",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      const mantra = await findOwnedMantra(mantraId, req.user!.userId);
+      const versions = await listMantraVersions(mantra);
+
+      res.status(200).json({
+        mantraId,
+        versions,
       });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to list versions of mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve mantra versions",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
 
-      if (!ownership) {
+// GET /mantras/:id/versions/:version/stream - Stream the audio of a version (not counted as a listen)
+router.get(
+  "/:id/versions/:version/stream",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+      const versionNumber = parseInt(req.params.version, 10);
+
+      // Validate IDs
+      if (isNaN(mantraId)) {
         throw new AppError(
-          ErrorCodes.UNAUTHORIZED_ACCESS,
-          "You do not have permission to delete this mantra",
-          403,
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
         );
       }
 
-      // Find mantra in database
-      const mantra = await Mantra.findByPk(mantraId);
+      if (isNaN(versionNumber)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid version number",
+          400,
+        );
+      }
 
-      if (!mantra) {
+      const mantra = await findOwnedMantra(mantraId, req.user!.userId);
+      const version = await findMantraVersion(mantra, versionNumber);
+      const fullFilePath = getMantraFilePath(version);
+
+      // Verify file exists
+      if (!fs.existsSync(fullFilePath) || !fs.statSync(fullFilePath).isFile()) {
+        logger.error(`Mantra version file not found: ${fullFilePath}`);
         throw new AppError(
           ErrorCodes.MANTRA_NOT_FOUND,
-          "Mantra not found",
+          "Mantra audio file not found",
           404,
         );
       }
 
-      // Delete MP3 file if it exists
-      if (mantra.filename) {
-        const filePath = path.join(
-          process.env.PATH_MP3_OUTPUT || "",
-          mantra.filename as string,
-        );
-
-        if (fs.existsSync(filePath)) {
-          try {
-            fs.unlinkSync(filePath);
-            logger.info(`Deleted mantra file: ${filePath}`);
-          } catch (error: any) {
-            logger.error(
-              `Failed to delete mantra file ${filePath}: ${error.message}`,
-            );
-            throw new AppError(
-              ErrorCodes.INTERNAL_ERROR,
-              "Failed to delete mantra file",
-              500,
-              error.message,
-            );
-          }
-        } else {
-          logger.warn(
-            `Mantra file not found for deletion: ${filePath}. Proceeding with database deletion.`,
-          );
-        }
+      sendMp3File(req, res, fullFilePath, fs.statSync(fullFilePath).size);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to stream version ${req.params.version} of mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to stream mantra version",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/:id/versions/:version/rollback - Make an earlier version current again
+router.post(
+  "/:id/versions/:version/rollback",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+      const versionNumber = parseInt(req.params.version, 10);
+
+      // Validate IDs
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      if (isNaN(versionNumber)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid version number",
+          400,
+        );
+      }
+
+      const mantra = await findOwnedMantra(mantraId, req.user!.userId);
+      await rollbackMantra(mantra, versionNumber);
+
+      res.status(200).json({
+        message: `Mantra rolled back to version ${versionNumber}`,
+        mantraId,
+        version: versionNumber,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to roll back mantra ${req.params.id} to version ${req.params.version}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to roll back mantra",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/:id/remix - Copy a public mantra into a new private draft
+router.post(
+  "/:id/remix",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      const draft = await remixMantra(mantraId, req.user!.userId);
+
+      res
+        .status(201)
+        .location(`/mantras/drafts/${draft.id}`)
+        .json({
+          message: "Mantra remixed into a new draft",
+          draft: toDraftDetails(draft),
+        });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to remix mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to remix mantra",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// GET /mantras/drafts
+router.get(
+  "/drafts",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const drafts = await listDrafts(req.user!.userId);
+
+      res.status(200).json({ drafts });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to list drafts for user ${req.user?.userId}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve drafts",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/drafts
+router.post(
+  "/drafts",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const fields = parseDraftFields(req.body ?? {}, true);
+      const draft = await createDraft(req.user!.userId, fields);
+
+      res
+        .status(201)
+        .location(`/mantras/drafts/${draft.id}`)
+        .json({
+          message: "Draft created successfully",
+          draft: toDraftDetails(draft),
+        });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to create draft for user ${req.user?.userId}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to create draft",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// GET /mantras/drafts/:id
+router.get(
+  "/drafts/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+
+      res.status(200).json({
+        draft: toDraftDetails(draft),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to retrieve draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve draft",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// PATCH /mantras/drafts/:id
+router.patch(
+  "/drafts/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+      const body = req.body ?? {};
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version = parseDraftVersion(body.version);
+      const changes = parseDraftFields(body, false);
+
+      // Check if at least one field is provided
+      if (Object.keys(changes).length === 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "At least one field (title, description, visibility, or mantraArray) must be provided",
+          400,
+        );
+      }
+
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      await updateDraft(draft, version, changes);
+
+      res.status(200).json({
+        message: "Draft updated successfully",
+        draft: toDraftDetails(draft),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to update draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to update draft",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// DELETE /mantras/drafts/:id?version=
+router.delete(
+  "/drafts/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version = parseDraftVersion(req.query.version);
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      await deleteDraft(draft, version);
+
+      res.status(200).json({
+        message: "Draft deleted successfully",
+        draftId,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to delete draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to delete draft",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/drafts/:id/elements - Insert an element
+router.post(
+  "/drafts/:id/elements",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+      const { element, position } = req.body ?? {};
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version = parseDraftVersion(req.body?.version);
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      await insertDraftElement(draft, version, element, position);
+
+      res.status(200).json({
+        message: "Element inserted successfully",
+        draft: toDraftDetails(draft),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to insert element into draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to insert element",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// PATCH /mantras/drafts/:id/elements/:elementId - Move an element
+router.patch(
+  "/drafts/:id/elements/:elementId",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version = parseDraftVersion(req.body?.version);
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      await moveDraftElement(
+        draft,
+        version,
+        req.params.elementId,
+        req.body?.position,
+      );
+
+      res.status(200).json({
+        message: "Element moved successfully",
+        draft: toDraftDetails(draft),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to move element ${req.params.elementId} of draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to move element",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// DELETE /mantras/drafts/:id/elements/:elementId?version= - Remove an element
+router.delete(
+  "/drafts/:id/elements/:elementId",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version = parseDraftVersion(req.query.version);
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      await deleteDraftElement(draft, version, req.params.elementId);
+
+      res.status(200).json({
+        message: "Element deleted successfully",
+        draft: toDraftDetails(draft),
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to delete element ${req.params.elementId} of draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to delete element",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/drafts/:id/submit - Hand a draft to the queuer
+router.post(
+  "/drafts/:id/submit",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const draftId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(draftId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid draft ID",
+          400,
+        );
+      }
+
+      const version =
+        req.body?.version === undefined
+          ? null
+          : parseDraftVersion(req.body.version);
+      const draft = await findOwnedDraft(draftId, req.user!.userId);
+      const queueId = await submitDraft(draft, version);
+
+      res.status(202).location(`/mantras/jobs/${queueId}`).json({
+        message: "Mantra creation queued",
+        draftId,
+        queueId,
+        status: "queued",
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to submit draft ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.QUEUER_ERROR,
+            "Failed to communicate with queuer service",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// POST /mantras/:id/share - Create or rotate the share link of an unlisted mantra
+router.post(
+  "/:id/share",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+      const expiresInHours = req.body?.expiresInHours ?? null;
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      // Validate expiry (optional)
+      if (
+        expiresInHours !== null &&
+        (!Number.isInteger(expiresInHours) ||
+          expiresInHours < 1 ||
+          expiresInHours > SHARE_LINK_MAX_HOURS)
+      ) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          `expiresInHours must be an integer between 1 and ${SHARE_LINK_MAX_HOURS}`,
+          400,
+        );
+      }
+
+      const mantra = await findOwnedMantra(mantraId, req.user!.userId);
+
+      if (mantra.get("visibility") !== "unlisted") {
+        throw new AppError(
+          ErrorCodes.CONFLICT,
+          "Share links are only available for unlisted mantras",
+          409,
+        );
+      }
+
+      const { share, token } = await createShareToken(
+        mantraId,
+        req.user!.userId,
+        expiresInHours,
+      );
+      const query = `share=${encodeURIComponent(token)}`;
+
+      res.status(201).json({
+        message: "Share link created. Store it now; it will not be shown again.",
+        shareToken: token,
+        share,
+        detailUrl: `${req.baseUrl}/${mantraId}?${query}`,
+        streamUrl: `${req.baseUrl}/${mantraId}/stream?${query}`,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to create share link for mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to create share link",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// GET /mantras/:id/share - Active share link of a mantra (without the token)
+router.get(
+  "/:id/share",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      await findOwnedMantra(mantraId, req.user!.userId);
+
+      const share = await getActiveShareToken(mantraId);
+
+      res.status(200).json({
+        share,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to retrieve share link for mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to retrieve share link",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// DELETE /mantras/:id/share - Revoke the share link of a mantra
+router.delete(
+  "/:id/share",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      await findOwnedMantra(mantraId, req.user!.userId);
+
+      const revokedCount = await revokeShareTokens(mantraId);
+
+      if (revokedCount === 0) {
+        throw new AppError(
+          ErrorCodes.NOT_FOUND,
+          "This mantra has no share link",
+          404,
+        );
+      }
+
+      res.status(200).json({
+        message: "Share link revoked successfully",
+        mantraId,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to revoke share link for mantra ${req.params.id}: ${error.message}`,
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to revoke share link",
+            500,
+            error.message,
+          ),
+        );
+      }
+    }
+  },
+);
+
+// DELETE /mantras/:id
+router.delete(
+  "/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mantraId = parseInt(req.params.id, 10);
+
+      // Validate ID
+      if (isNaN(mantraId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid mantra ID",
+          400,
+        );
+      }
+
+      // Verify ownership via ContractUsersMantras
+      const ownership = await ContractUsersMantras.findOne({
+        where: {
+          userId: req.user?.userId,
+          mantraId: mantraId,
+        },
+      });
+
+      if (!ownership) {
+        throw new AppError(
+          ErrorCodes.UNAUTHORIZED_ACCESS,
+          "You do not have permission to delete this mantra",
+          403,
+        );
+      }
+
+      // Find mantra in database
+      const mantra = await Mantra.findByPk(mantraId);
+
+      if (!mantra) {
+        throw new AppError(
+          ErrorCodes.MANTRA_NOT_FOUND,
+          "Mantra not found",
+          404,
+        );
       }
 
-      // Delete mantra from database
-      await mantra.destroy();
+      await deleteMantra(mantra);
 
       logger.info(`Mantra ${mantraId} deleted by user ${req.user?.userId}`);
 
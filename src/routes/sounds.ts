@@ -1,8 +1,19 @@
 import { Router, Request, Response, NextFunction } from "express";
-import { SoundFiles, Mantra, ContractUsersMantras } from "mantrify01db";
+import { SoundFiles, Mantra, sequelize } from "mantrify01db";
 import { authMiddleware } from "../modules/authMiddleware";
+import {
+  requirePermission,
+  userHasPrivilegedPermission
+} from "../modules/permissions";
+import {
+  recordSoundFileUploader,
+  deleteSoundFileUploader,
+  assertCanManageSoundFile,
+  countMantrasOwnedByOthers,
+} from "../modules/soundFileAccess";
 import { AppError, ErrorCodes } from "../modules/errorHandler";
 import logger from "../modules/logger";
+import { idempotency } from "../modules/idempotency";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
@@ -11,6 +22,7 @@ import {
   isMP3File,
   getFilenameWithoutExtension,
 } from "../modules/fileUpload";
+import { deleteMantra } from "../modules/mantraDeletion";
 
 const router = Router();
 
@@ -57,7 +69,9 @@ router.get(
 router.post(
   "/upload",
   authMiddleware,
+  requirePermission("sounds:upload"),
   upload.single("file"),
+  idempotency("sounds:upload"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Check if file was uploaded
@@ -144,10 +158,24 @@ router.post(
 
       // Create database entry
       try {
-        const soundFile = await SoundFiles.create({
-          name: soundName,
-          description: description || null,
-          filename: sanitizedFilename,
+        // Create the sound file and record its uploader together
+        const soundFile = await sequelize.transaction(async (transaction) => {
+          const created = await SoundFiles.create(
+            {
+              name: soundName,
+              description: description || null,
+              filename: sanitizedFilename,
+            },
+            { transaction }
+          );
+
+          await recordSoundFileUploader(
+            created.get("id") as number,
+            req.user!.userId,
+            transaction
+          );
+
+          return created;
         });
 
         logger.info(
@@ -161,6 +189,7 @@ router.post(
             name: soundFile.name,
             description: soundFile.description,
             filename: soundFile.filename,
+            uploadedByUserId: req.user!.userId,
           },
         });
       } catch (error: any) {
@@ -200,6 +229,107 @@ router.post(
   }
 );
 
+// PATCH /sounds/sound_file/:id (protected endpoint - uploader or sounds:edit)
+router.patch(
+  "/sound_file/:id",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const soundFileId = parseInt(req.params.id, 10);
+      const userId = req.user!.userId;
+      const { name, description } = req.body;
+
+      // Validate ID
+      if (isNaN(soundFileId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid sound file ID",
+          400
+        );
+      }
+
+      // Validate input
+      if (name === undefined && description === undefined) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Name or description is required",
+          400
+        );
+      }
+
+      if (
+        name !== undefined &&
+        (typeof name !== "string" || name.trim().length === 0)
+      ) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Name must be a non-empty string",
+          400
+        );
+      }
+
+      if (
+        description !== undefined &&
+        description !== null &&
+        typeof description !== "string"
+      ) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Description must be a string or null",
+          400
+        );
+      }
+
+      // Find sound file in database
+      const soundFile = await SoundFiles.findByPk(soundFileId);
+
+      if (!soundFile) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Sound file not found",
+          404
+        );
+      }
+
+      // Only the uploader or a user with sounds:edit may edit it
+      await assertCanManageSoundFile(soundFileId, userId, "sounds:edit", "edit");
+
+      await soundFile.update({
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description || null }),
+      });
+
+      logger.info(`Sound file ${soundFileId} updated by user ${userId}`);
+
+      res.status(200).json({
+        message: "Sound file updated successfully",
+        soundFile: {
+          id: soundFile.get("id"),
+          name: soundFile.get("name"),
+          description: soundFile.get("description"),
+          filename: soundFile.get("filename"),
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(
+          `Failed to update sound file ${req.params.id}: ${error.message}`
+        );
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to update sound file",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
 // DELETE /sounds/sound_file/:id (protected endpoint - requires authentication)
 router.delete(
   "/sound_file/:id",
@@ -207,6 +337,7 @@ router.delete(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const soundFileId = parseInt(req.params.id, 10);
+      const userId = req.user!.userId;
 
       // Validate ID
       if (isNaN(soundFileId)) {
@@ -232,6 +363,14 @@ router.delete(
         );
       }
 
+      // Only the uploader or a user with sounds:delete may delete it
+      await assertCanManageSoundFile(
+        soundFileId,
+        userId,
+        "sounds:delete",
+        "delete"
+      );
+
       const filename = soundFile.filename as string;
 
       // Find all mantras that use this sound file
@@ -246,6 +385,30 @@ router.delete(
         );
       });
 
+      // Mantras belonging to other users can only be removed with admin approval
+      const otherUsersMantrasCount = await countMantrasOwnedByOthers(
+        linkedMantras.map((mantra) => mantra.get("id") as number),
+        userId
+      );
+
+      if (
+        otherUsersMantrasCount > 0 &&
+        !(await userHasPrivilegedPermission(userId, "sounds:delete-shared"))
+      ) {
+        logger.warn(
+          `User ${userId} cannot delete sound file ${filename}: used by ${otherUsersMantrasCount} mantra(s) of other users`
+        );
+        throw new AppError(
+          ErrorCodes.PERMISSION_DENIED,
+          `This sound file is used by ${otherUsersMantrasCount} mantra(s) belonging to other users, so deleting it requires admin approval`,
+          403,
+          {
+            linkedMantrasCount: linkedMantras.length,
+            otherUsersMantrasCount,
+          }
+        );
+      }
+
       // If mantras are using this sound file and deleteLinkedMantras is false
       if (linkedMantras.length > 0 && !shouldDeleteLinkedMantras) {
         logger.warn(
@@ -265,38 +428,31 @@ router.delete(
           `Deleting ${linkedMantras.length} mantra(s) linked to sound file ${filename}`
         );
 
-        const outputPath = process.env.PATH_MP3_OUTPUT;
-        if (!outputPath) {
-          throw new AppError(
-            ErrorCodes.INTERNAL_ERROR,
-            "Mantra output path not configured",
-            500
-          );
-        }
+        // One mantra failing must not stop the others from being deleted
+        const failedMantraIds: number[] = [];
 
         for (const mantra of linkedMantras) {
           const mantraId = mantra.get("id") as number;
-          const mantraFilename = mantra.get("filename") as string | null;
-
-          // Delete mantra file if it exists
-          if (mantraFilename) {
-            const mantraFilePath = path.join(outputPath, mantraFilename);
-
-            if (fs.existsSync(mantraFilePath)) {
-              try {
-                fs.unlinkSync(mantraFilePath);
-                logger.info(`Deleted mantra file: ${mantraFilePath}`);
-              } catch (error: any) {
-                logger.error(
-                  `Failed to delete mantra file ${mantraFilePath}: ${error.message}`
-                );
-              }
-            }
+
+          try {
+            await deleteMantra(mantra);
+            logger.info(`Deleted mantra ${mantraId} linked to sound file ${filename}`);
+          } catch (error: any) {
+            failedMantraIds.push(mantraId);
+            logger.error(
+              `Failed to delete mantra ${mantraId} linked to sound file ${filename}: ${error.message}`
+            );
           }
+        }
 
-          // Delete mantra from database
-          await mantra.destroy();
-          logger.info(`Deleted mantra ${mantraId} linked to sound file ${filename}`);
+        // The sound file is kept while mantras still use it
+        if (failedMantraIds.length > 0) {
+          throw new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            `Failed to delete ${failedMantraIds.length} of ${linkedMantras.length} linked mantra(s), so the sound file was kept`,
+            500,
+            { failedMantraIds }
+          );
         }
       }
 
@@ -334,6 +490,7 @@ router.delete(
 
       // Delete sound file from database
       await soundFile.destroy();
+      await deleteSoundFileUploader(soundFileId);
 
       logger.info(
         `Sound file ${soundFileId} deleted by user ${req.user?.userId}${
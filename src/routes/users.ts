@@ -1,22 +1,142 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { User } from "mantrify01db";
 import { hashPassword, comparePassword } from "../modules/passwordHash";
+import { assertPasswordMeetsPolicy } from "../modules/passwordPolicy";
 import {
   generateAccessToken,
   generateEmailVerificationToken,
   verifyEmailVerificationToken,
   generatePasswordResetToken,
   verifyPasswordResetToken,
+  generateEmailChangeToken,
+  verifyEmailChangeToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
 } from "../modules/jwt";
-import { sendVerificationEmail, sendPasswordResetEmail } from "../modules/emailService";
+import {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendEmailChangeConfirmationEmail,
+  sendPasswordChangedEmail,
+  sendEmailChangedEmail,
+} from "../modules/emailService";
 import { AppError, ErrorCodes } from "../modules/errorHandler";
 import logger from "../modules/logger";
 import { checkUserHasPublicMantras } from "../modules/userPublicMantras";
 import { deleteUser } from "../modules/deleteUser";
 import { authMiddleware } from "../modules/authMiddleware";
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+} from "../modules/refreshTokens";
+import {
+  rateLimit,
+  ipKey,
+  emailKey,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMIT_MAX_PER_IP,
+  RATE_LIMIT_MAX_PER_ACCOUNT,
+} from "../modules/rateLimiter";
+import {
+  assertAccountNotLocked,
+  recordFailedLogin,
+  clearFailedLogins,
+} from "../modules/accountLockout";
+import {
+  createSession,
+  listActiveSessions,
+  findActiveSession,
+  revokeSession,
+  revokeAllSessions,
+} from "../modules/sessions";
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../modules/apiKeys";
+import { getRolesForUser } from "../modules/permissions";
+import {
+  isTwoFactorEnabled,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  verifyTwoFactorCode,
+  disableTwoFactor,
+} from "../modules/twoFactor";
+import { getUserUsage } from "../modules/usageQuotas";
 
 const router = Router();
 
+// Minimum seconds between verification emails to the same address
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = parseInt(
+  process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS || "60",
+  10
+);
+
+// Per-IP and per-account limits for the authentication endpoints
+const limitPerIp = (name: string) =>
+  rateLimit({
+    name: `${name}:ip`,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_PER_IP,
+    keyGenerator: ipKey,
+  });
+
+const limitPerAccount = (name: string) =>
+  rateLimit({
+    name: `${name}:account`,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_PER_ACCOUNT,
+    keyGenerator: emailKey,
+  });
+
+// Create the session and tokens once all login factors have been checked
+const completeLogin = async (
+  user: InstanceType<typeof User>,
+  req: Request,
+  res: Response,
+  twoFactorEnabled: boolean
+) => {
+  // Create a session for this device
+  const session = await createSession(user.id as number, req);
+
+  // Generate access token
+  const accessToken = generateAccessToken(
+    user.id as number,
+    user.email as string,
+    session.id
+  );
+
+  // Issue the session's first refresh token
+  const { refreshToken } = await issueRefreshToken(
+    user.id as number,
+    session.id
+  );
+
+  // Check if user has public mantras
+  const hasPublicMantras = await checkUserHasPublicMantras(user.id as number);
+
+  // Resolve roles for the client (e.g. to show curator tools)
+  const roles = await getRolesForUser(user);
+
+  logger.info(`User logged in: ${user.email}`);
+
+  res.status(200).json({
+    message: "Login successful",
+    accessToken,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin,
+      roles,
+      hasPublicMantras,
+      twoFactorEnabled,
+    },
+  });
+};
+
 // POST /users/register
 router.post(
   "/register",
@@ -43,14 +163,8 @@ router.post(
         );
       }
 
-      // Validate password length
-      if (password.length < 4) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          "Password must be at least 4 characters long",
-          400
-        );
-      }
+      // Validate password against the password policy
+      assertPasswordMeetsPolicy(password);
 
       // Normalize email to lowercase
       const normalizedEmail = email.toLowerCase();
@@ -173,9 +287,72 @@ router.get(
   }
 );
 
+// POST /users/resend-verification
+router.post(
+  "/resend-verification",
+  limitPerIp("resend-verification"),
+  // Cooldown applies to every address, so it doesn't reveal whether an account exists
+  rateLimit({
+    name: "resend-verification:email",
+    windowMs: VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000,
+    max: 1,
+    keyGenerator: emailKey,
+    message: (retryAfterSeconds) =>
+      `Please wait ${retryAfterSeconds} seconds before requesting another verification email`,
+  }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email } = req.body;
+
+      // Validate input
+      if (!email || typeof email !== "string") {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Email is required",
+          400
+        );
+      }
+
+      // Normalize email
+      const normalizedEmail = email.toLowerCase();
+
+      // Find user
+      const user = await User.findOne({
+        where: { email: normalizedEmail },
+      });
+
+      // Only unverified accounts get a new link
+      if (user && !user.isEmailVerified) {
+        const verificationToken = generateEmailVerificationToken(
+          user.id as number,
+          user.email as string
+        );
+
+        await sendVerificationEmail(normalizedEmail, verificationToken);
+
+        logger.info(`Verification email re-sent to ${normalizedEmail}`);
+      } else {
+        logger.info(
+          `Resend verification requested for ${normalizedEmail} (no unverified account)`
+        );
+      }
+
+      res.status(200).json({
+        message:
+          "If an unverified account exists for this email, a new verification link has been sent. Please check your inbox.",
+        cooldownSeconds: VERIFICATION_RESEND_COOLDOWN_SECONDS,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // POST /users/login
 router.post(
   "/login",
+  limitPerIp("login"),
+  limitPerAccount("login"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email, password } = req.body;
@@ -205,6 +382,9 @@ router.post(
         );
       }
 
+      // Reject attempts while the account is locked
+      assertAccountNotLocked(user.id as number, res);
+
       // Check if email is verified
       if (!user.isEmailVerified) {
         throw new AppError(
@@ -221,6 +401,15 @@ router.post(
       );
 
       if (!isPasswordValid) {
+        const locked = await recordFailedLogin(
+          user.id as number,
+          user.email as string
+        );
+
+        if (locked) {
+          assertAccountNotLocked(user.id as number, res);
+        }
+
         throw new AppError(
           ErrorCodes.AUTH_FAILED,
           "Invalid email or password",
@@ -228,28 +417,182 @@ router.post(
         );
       }
 
-      // Generate access token
+      clearFailedLogins(user.id as number);
+
+      // Ask for the second factor before issuing tokens
+      if (await isTwoFactorEnabled(user.id as number)) {
+        const twoFactorToken = generateTwoFactorChallengeToken(
+          user.id as number,
+          user.email as string
+        );
+
+        logger.info(`Two-factor challenge issued for: ${user.email}`);
+
+        res.status(200).json({
+          message: "Two-factor authentication required",
+          twoFactorRequired: true,
+          twoFactorToken,
+        });
+        return;
+      }
+
+      await completeLogin(user, req, res, false);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/login/2fa
+router.post(
+  "/login/2fa",
+  limitPerIp("login-2fa"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { twoFactorToken, code, recoveryCode } = req.body;
+
+      // Validate input
+      if (!twoFactorToken || (!code && !recoveryCode)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Two-factor token and code or recovery code are required",
+          400
+        );
+      }
+
+      // Verify challenge token
+      let payload;
+      try {
+        payload = verifyTwoFactorChallengeToken(twoFactorToken);
+      } catch (error: any) {
+        if (error.name === "TokenExpiredError") {
+          throw new AppError(
+            ErrorCodes.TOKEN_EXPIRED,
+            "Two-factor token has expired. Please log in again.",
+            401
+          );
+        }
+        throw new AppError(
+          ErrorCodes.INVALID_TOKEN,
+          "Invalid two-factor token",
+          401
+        );
+      }
+
+      // Find user
+      const user = await User.findByPk(payload.userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      // Reject attempts while the account is locked
+      assertAccountNotLocked(user.id as number, res);
+
+      // Check the second factor (wrong codes count toward the lockout)
+      const isCodeValid = await verifyTwoFactorCode(user.id as number, {
+        code: typeof code === "string" ? code : undefined,
+        recoveryCode:
+          typeof recoveryCode === "string" ? recoveryCode : undefined,
+      });
+
+      if (!isCodeValid) {
+        const locked = await recordFailedLogin(
+          user.id as number,
+          user.email as string
+        );
+
+        if (locked) {
+          assertAccountNotLocked(user.id as number, res);
+        }
+
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Invalid two-factor code",
+          401
+        );
+      }
+
+      clearFailedLogins(user.id as number);
+
+      await completeLogin(user, req, res, true);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/refresh
+router.post(
+  "/refresh",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { refreshToken } = req.body;
+
+      // Validate input
+      if (!refreshToken || typeof refreshToken !== "string") {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Refresh token is required",
+          400
+        );
+      }
+
+      // Rotate refresh token (revokes the presented one)
+      const rotated = await rotateRefreshToken(refreshToken);
+
+      // Find user
+      const user = await User.findByPk(rotated.userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      // Generate new access token
       const accessToken = generateAccessToken(
         user.id as number,
-        user.email as string
-      );
-
-      // Check if user has public mantras
-      const hasPublicMantras = await checkUserHasPublicMantras(
-        user.id as number
+        user.email as string,
+        rotated.sessionId
       );
 
-      logger.info(`User logged in: ${user.email}`);
+      logger.info(`Access token refreshed for user: ${user.email}`);
 
       res.status(200).json({
-        message: "Login successful",
+        message: "Token refreshed successfully",
         accessToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          isAdmin: user.isAdmin,
-          hasPublicMantras,
-        },
+        refreshToken: rotated.refreshToken,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/logout
+router.post(
+  "/logout",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { refreshToken } = req.body;
+
+      // Validate input
+      if (!refreshToken || typeof refreshToken !== "string") {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Refresh token is required",
+          400
+        );
+      }
+
+      // Revoke the token's session (unknown tokens are treated as already logged out)
+      const found = await revokeRefreshToken(refreshToken);
+
+      if (!found) {
+        logger.warn("Logout attempted with unknown refresh token");
+      }
+
+      res.status(200).json({
+        message: "Logged out successfully",
       });
     } catch (error) {
       next(error);
@@ -260,6 +603,8 @@ router.post(
 // POST /users/forgot-password
 router.post(
   "/forgot-password",
+  limitPerIp("forgot-password"),
+  limitPerAccount("forgot-password"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { email } = req.body;
@@ -313,6 +658,7 @@ router.post(
 // POST /users/reset-password
 router.post(
   "/reset-password",
+  limitPerIp("reset-password"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { token, newPassword } = req.body;
@@ -326,14 +672,8 @@ router.post(
         );
       }
 
-      // Validate password length
-      if (newPassword.length < 2) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          "Password must be at least 2 characters long",
-          400
-        );
-      }
+      // Validate password against the password policy
+      assertPasswordMeetsPolicy(newPassword, "newPassword");
 
       // Verify and decode token
       let payload;
@@ -375,6 +715,12 @@ router.post(
         }
       );
 
+      // A successful reset proves ownership, so lift any lockout
+      clearFailedLogins(payload.userId);
+
+      // Sign out every device, including one that may have been compromised
+      await revokeAllSessions(payload.userId);
+
       logger.info(`Password reset successful for user: ${user.email}`);
 
       res.status(200).json({
@@ -386,52 +732,689 @@ router.post(
   }
 );
 
-// DELETE /users/me
-router.delete(
-  "/me",
+// PATCH /users/me/password
+router.patch(
+  "/me/password",
   authMiddleware,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.user?.userId;
+      const { currentPassword, newPassword } = req.body;
+      const userId = req.user!.userId;
 
-      if (!userId) {
+      // Validate input
+      if (!currentPassword || !newPassword) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Current password and new password are required",
+          400
+        );
+      }
+
+      // Validate password against the password policy
+      assertPasswordMeetsPolicy(newPassword, "newPassword");
+
+      // Find user
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      // Compare current password
+      const isPasswordValid = await comparePassword(
+        currentPassword,
+        user.password as string
+      );
+
+      if (!isPasswordValid) {
         throw new AppError(
           ErrorCodes.AUTH_FAILED,
-          "Authentication required",
+          "Current password is incorrect",
           401
         );
       }
 
-      // Extract savePublicMantrasAsBenevolentUser from request body (default: false)
-      const savePublicMantrasAsBenevolentUser =
-        req.body.savePublicMantrasAsBenevolentUser === true;
+      // Hash new password
+      const hashedPassword = await hashPassword(newPassword);
 
-      logger.info(`User ${userId} initiated self-deletion`);
+      // Update user password
+      await User.update(
+        {
+          password: hashedPassword,
+        },
+        {
+          where: { id: userId },
+        }
+      );
 
-      // Call deleteUser module
-      const result = await deleteUser(userId, savePublicMantrasAsBenevolentUser);
+      // Sign out every other device
+      const revokedSessions = await revokeAllSessions(
+        userId,
+        req.user!.sessionId
+      );
 
-      res.status(200).json({
-        message: "Your account has been deleted successfully",
-        userId: result.userId,
-        mantrasDeleted: result.mantrasDeleted,
-        elevenLabsFilesDeleted: result.elevenLabsFilesDeleted,
-        benevolentUserCreated: result.benevolentUserCreated,
-      });
-    } catch (error: any) {
-      if (error instanceof AppError) {
-        next(error);
-      } else {
-        logger.error(`Failed to delete user ${req.user?.userId}: ${error.message}`);
-        next(
-          new AppError(
-            ErrorCodes.INTERNAL_ERROR,
-            "Failed to delete user account",
-            500,
-            error.message
-          )
+      logger.info(`Password changed for user: ${user.email}`);
+
+      // Notify the account owner (the change already succeeded, so don't fail the request)
+      try {
+        await sendPasswordChangedEmail(user.email as string);
+      } catch (error: any) {
+        logger.error(
+          `Password changed notice failed for user ${userId}: ${error.message}`
         );
       }
+
+      res.status(200).json({
+        message: "Password changed successfully",
+        revokedSessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/me/email
+router.post(
+  "/me/email",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { newEmail, password } = req.body;
+      const userId = req.user!.userId;
+
+      // Validate input
+      if (!newEmail || !password) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "New email and password are required",
+          400
+        );
+      }
+
+      // Validate email format
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(newEmail)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid email format",
+          400
+        );
+      }
+
+      // Normalize email to lowercase
+      const normalizedEmail = newEmail.toLowerCase();
+
+      // Find user
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      // Compare password
+      const isPasswordValid = await comparePassword(
+        password,
+        user.password as string
+      );
+
+      if (!isPasswordValid) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Password is incorrect",
+          401
+        );
+      }
+
+      if (normalizedEmail === user.email) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "New email must be different from the current email",
+          400
+        );
+      }
+
+      // Check if email is already in use
+      const existingUser = await User.findOne({
+        where: { email: normalizedEmail },
+      });
+
+      if (existingUser) {
+        throw new AppError(
+          ErrorCodes.CONFLICT,
+          "User with this email already exists",
+          409
+        );
+      }
+
+      // Generate email change token
+      const emailChangeToken = generateEmailChangeToken(
+        userId,
+        user.email as string,
+        normalizedEmail,
+        req.user!.sessionId as number
+      );
+
+      // Send confirmation to the new address
+      await sendEmailChangeConfirmationEmail(normalizedEmail, emailChangeToken);
+
+      logger.info(
+        `Email change requested for user ${userId}: ${user.email} -> ${normalizedEmail}`
+      );
+
+      res.status(200).json({
+        message:
+          "A confirmation link has been sent to your new email address. Your email will change once you confirm it.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /users/confirm-email-change
+router.get(
+  "/confirm-email-change",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token } = req.query;
+
+      // Validate token exists
+      if (!token || typeof token !== "string") {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Confirmation token is required",
+          400
+        );
+      }
+
+      // Verify and decode token
+      let payload;
+      try {
+        payload = verifyEmailChangeToken(token);
+      } catch (error: any) {
+        if (error.name === "TokenExpiredError") {
+          throw new AppError(
+            ErrorCodes.TOKEN_EXPIRED,
+            "Confirmation token has expired. Please request the email change again.",
+            401
+          );
+        } else {
+          throw new AppError(
+            ErrorCodes.INVALID_TOKEN,
+            "Invalid confirmation token",
+            401
+          );
+        }
+      }
+
+      if (!payload.newEmail) {
+        throw new AppError(
+          ErrorCodes.INVALID_TOKEN,
+          "Invalid confirmation token",
+          401
+        );
+      }
+
+      // Find user
+      const user = await User.findByPk(payload.userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      // Already confirmed (link opened twice)
+      if (user.email === payload.newEmail) {
+        return res.status(200).json({
+          message: "Email address is already updated.",
+        });
+      }
+
+      // The account email changed since the link was issued
+      if (user.email !== payload.email) {
+        throw new AppError(
+          ErrorCodes.INVALID_TOKEN,
+          "Invalid confirmation token",
+          401
+        );
+      }
+
+      // Check the new address was not taken in the meantime
+      const existingUser = await User.findOne({
+        where: { email: payload.newEmail },
+      });
+
+      if (existingUser) {
+        throw new AppError(
+          ErrorCodes.CONFLICT,
+          "User with this email already exists",
+          409
+        );
+      }
+
+      // Update user email
+      await User.update(
+        {
+          email: payload.newEmail,
+        },
+        {
+          where: { id: payload.userId },
+        }
+      );
+
+      // Sign out every device except the one that requested the change
+      await revokeAllSessions(payload.userId, payload.sessionId);
+
+      logger.info(
+        `Email changed for user ${payload.userId}: ${payload.email} -> ${payload.newEmail}`
+      );
+
+      // Notify the old address (the change already succeeded, so don't fail the request)
+      try {
+        await sendEmailChangedEmail(payload.email, payload.newEmail);
+      } catch (error: any) {
+        logger.error(
+          `Email changed notice failed for user ${payload.userId}: ${error.message}`
+        );
+      }
+
+      res.status(200).json({
+        message: "Email address changed successfully.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /users/me
+router.delete(
+  "/me",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Authentication required",
+          401
+        );
+      }
+
+      // Extract savePublicMantrasAsBenevolentUser from request body (default: false)
+      const savePublicMantrasAsBenevolentUser =
+        req.body.savePublicMantrasAsBenevolentUser === true;
+
+      logger.info(`User ${userId} initiated self-deletion`);
+
+      // Call deleteUser module
+      const result = await deleteUser(userId, savePublicMantrasAsBenevolentUser);
+
+      res.status(200).json({
+        message: "Your account has been deleted successfully",
+        userId: result.userId,
+        mantrasDeleted: result.mantrasDeleted,
+        elevenLabsFilesDeleted: result.elevenLabsFilesDeleted,
+        benevolentUserCreated: result.benevolentUserCreated,
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        next(error);
+      } else {
+        logger.error(`Failed to delete user ${req.user?.userId}: ${error.message}`);
+        next(
+          new AppError(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to delete user account",
+            500,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+// POST /users/me/2fa/setup
+router.post(
+  "/me/2fa/setup",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { userId, email } = req.user!;
+
+      // Generate a new secret (pending until confirmed)
+      const { secret, otpauthUrl } = await beginTwoFactorSetup(userId, email);
+
+      res.status(200).json({
+        message:
+          "Scan the QR code with your authenticator app, then confirm with a code",
+        secret,
+        otpauthUrl,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/me/2fa/verify
+router.post(
+  "/me/2fa/verify",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body;
+      const userId = req.user!.userId;
+
+      // Validate input
+      if (!code || typeof code !== "string") {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Code is required",
+          400
+        );
+      }
+
+      // Enable 2FA and generate recovery codes
+      const recoveryCodes = await confirmTwoFactorSetup(userId, code);
+
+      res.status(200).json({
+        message: "Two-factor authentication enabled",
+        recoveryCodes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/me/2fa/disable
+router.post(
+  "/me/2fa/disable",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { password, code, recoveryCode } = req.body;
+      const userId = req.user!.userId;
+
+      // Validate input
+      if (!password || (!code && !recoveryCode)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Password and code or recovery code are required",
+          400
+        );
+      }
+
+      // Find user
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new AppError(ErrorCodes.USER_NOT_FOUND, "User not found", 404);
+      }
+
+      if (!(await isTwoFactorEnabled(userId))) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Two-factor authentication is not enabled",
+          400
+        );
+      }
+
+      // Compare password
+      const isPasswordValid = await comparePassword(
+        password,
+        user.password as string
+      );
+
+      if (!isPasswordValid) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Password is incorrect",
+          401
+        );
+      }
+
+      // Check the second factor
+      const isCodeValid = await verifyTwoFactorCode(userId, {
+        code: typeof code === "string" ? code : undefined,
+        recoveryCode:
+          typeof recoveryCode === "string" ? recoveryCode : undefined,
+      });
+
+      if (!isCodeValid) {
+        throw new AppError(
+          ErrorCodes.AUTH_FAILED,
+          "Invalid two-factor code",
+          401
+        );
+      }
+
+      await disableTwoFactor(userId);
+
+      res.status(200).json({
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /users/me/usage - Mantra generation usage and quotas
+router.get(
+  "/me/usage",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const usage = await getUserUsage(req.user!.userId);
+
+      res.status(200).json({
+        usage,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /users/me/sessions
+router.get(
+  "/me/sessions",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+
+      const sessions = await listActiveSessions(userId, req.user!.sessionId);
+
+      res.status(200).json({
+        sessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /users/me/sessions - Log out everywhere
+router.delete(
+  "/me/sessions",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+
+      // Extract keepCurrent from request body (default: false)
+      const keepCurrent = req.body?.keepCurrent === true;
+
+      const revokedCount = await revokeAllSessions(
+        userId,
+        keepCurrent ? req.user!.sessionId : undefined
+      );
+
+      logger.info(
+        `User ${userId} logged out of ${revokedCount} session(s)${keepCurrent ? " (kept current session)" : ""}`
+      );
+
+      res.status(200).json({
+        message: "Sessions revoked successfully",
+        revokedCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /users/me/sessions/:id
+router.delete(
+  "/me/sessions/:id",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      const userId = req.user!.userId;
+
+      // Validate ID
+      if (isNaN(sessionId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid session ID",
+          400
+        );
+      }
+
+      // Only the owner's active sessions can be revoked
+      const session = await findActiveSession(sessionId, userId);
+
+      if (!session) {
+        throw new AppError(ErrorCodes.NOT_FOUND, "Session not found", 404);
+      }
+
+      await revokeSession(sessionId);
+
+      logger.info(`User ${userId} revoked session ${sessionId}`);
+
+      res.status(200).json({
+        message: "Session revoked successfully",
+        sessionId,
+        current: sessionId === req.user!.sessionId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /users/me/api-keys
+router.post(
+  "/me/api-keys",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, scopes } = req.body;
+      const userId = req.user!.userId;
+
+      // Validate input
+      if (!name || typeof name !== "string" || name.trim().length > 100) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Name is required (maximum 100 characters)",
+          400
+        );
+      }
+
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Scopes must be a non-empty array",
+          400,
+          { allowedScopes: API_KEY_SCOPES }
+        );
+      }
+
+      const invalidScopes = scopes.filter(
+        (scope: unknown) =>
+          typeof scope !== "string" || !API_KEY_SCOPES.includes(scope)
+      );
+
+      if (invalidScopes.length > 0) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid scopes",
+          400,
+          { invalidScopes, allowedScopes: API_KEY_SCOPES }
+        );
+      }
+
+      // Create key (the plain key is only returned in this response)
+      const { apiKey, key } = await createApiKey(
+        userId,
+        name.trim(),
+        Array.from(new Set<string>(scopes))
+      );
+
+      res.status(201).json({
+        message: "API key created. Store it now; it will not be shown again.",
+        key,
+        apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /users/me/api-keys
+router.get(
+  "/me/api-keys",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKeys = await listApiKeys(req.user!.userId);
+
+      res.status(200).json({ apiKeys });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /users/me/api-keys/:id
+router.delete(
+  "/me/api-keys/:id",
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const apiKeyId = parseInt(req.params.id, 10);
+
+      // Validate input
+      if (isNaN(apiKeyId)) {
+        throw new AppError(
+          ErrorCodes.VALIDATION_ERROR,
+          "Invalid API key ID",
+          400
+        );
+      }
+
+      // Only the owner's active keys can be revoked
+      const revoked = await revokeApiKey(userId, apiKeyId);
+
+      if (!revoked) {
+        throw new AppError(ErrorCodes.NOT_FOUND, "API key not found", 404);
+      }
+
+      res.status(200).json({
+        message: "API key revoked successfully",
+        apiKeyId,
+      });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -0,0 +1,205 @@
+import dotenv from "dotenv";
+
+// Load environment variables first
+dotenv.config();
+
+import express, { Request, Response } from "express";
+import path from "path";
+import {
+  initModels,
+  Queue,
+  Mantra,
+  ContractUsersMantras,
+} from "mantrify01db";
+import {
+  QUEUER_SIGNATURE_HEADER,
+  QUEUER_TIMESTAMP_HEADER,
+  QueuerEvent,
+  signQueuerEvent,
+} from "../modules/queuerWebhook";
+import logger from "../modules/logger";
+
+/**
+ * Local stand-in for Mantrify01Queuer
+ *
+ * Accepts POST /mantras/new and POST /mantras/cancel like the real queuer, writes
+ * the same Queue, Mantras and ContractUsersMantras rows (without generating audio),
+ * answers POST /mantras/new only once the job is finished, and reports every step
+ * to POST /internal/queuer/events with a signed webhook when QUEUER_WEBHOOK_SECRET is set.
+ *
+ * Usage: point URL_MANTRIFY01QUEUER at this server, then run `npm run fake-queuer`.
+ * FAKE_QUEUER_STEP_MS sets the delay between statuses; FAKE_QUEUER_FAIL=true fails every job.
+ */
+
+const queuerUrl = new URL(
+  process.env.URL_MANTRIFY01QUEUER || "http://localhost:3001",
+);
+const FAKE_QUEUER_PORT = parseInt(queuerUrl.port || "3001", 10);
+const API_URL = process.env.URL_MANTRIFY01API || `http://localhost:${process.env.PORT}`;
+const STEP_MS = parseInt(process.env.FAKE_QUEUER_STEP_MS || "2000", 10);
+const FAIL_JOBS = process.env.FAKE_QUEUER_FAIL === "true";
+const SECRET = process.env.QUEUER_WEBHOOK_SECRET;
+
+if (!SECRET) {
+  logger.warn(
+    "Fake queuer: QUEUER_WEBHOOK_SECRET is not set, so no events are sent (results are only returned in the responses)",
+  );
+}
+
+let eventCounter = 0;
+
+// Jobs cancelled through POST /mantras/cancel while still queued
+const cancelledQueueIds = new Set<number>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Send a signed event to the API the same way the real queuer would
+const sendEvent = async (
+  event: Omit<QueuerEvent, "eventId">,
+): Promise<void> => {
+  if (!SECRET) {
+    return;
+  }
+
+  const body = JSON.stringify({
+    eventId: `fake-${Date.now()}-${++eventCounter}`,
+    ...event,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const response = await fetch(`${API_URL}/internal/queuer/events`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [QUEUER_TIMESTAMP_HEADER]: timestamp.toString(),
+      [QUEUER_SIGNATURE_HEADER]: `sha256=${signQueuerEvent(SECRET, timestamp, body)}`,
+    },
+    body,
+  });
+
+  logger.info(
+    `Fake queuer sent ${event.type} ${event.status || ""} for job ${event.queueId} -> ${response.status}`,
+  );
+};
+
+const app = express();
+app.use(express.json({ limit: "5mb" }));
+
+// Answer to POST /mantras/new once the job has finished
+interface JobResult {
+  success: boolean;
+  queueId: number;
+  finalFilePath?: string;
+  message?: string;
+}
+
+// Move a job through its statuses, reporting each one to the API
+const runJob = async (
+  queue: InstanceType<typeof Queue>,
+  userId: number,
+): Promise<JobResult> => {
+  const queueId = queue.get("id") as number;
+
+  await sendEvent({ type: "status", queueId, status: "queued" });
+
+  for (const status of ["started", "elevenlabs", "concatenator"] as const) {
+    await sleep(STEP_MS);
+
+    if (cancelledQueueIds.has(queueId)) {
+      logger.info(`Fake queuer job ${queueId} cancelled`);
+      return { success: false, queueId, message: "Job cancelled" };
+    }
+
+    await queue.update({ status });
+    await sendEvent({ type: "status", queueId, status });
+  }
+
+  await sleep(STEP_MS);
+
+  if (FAIL_JOBS) {
+    const message = "Fake queuer failure";
+    await sendEvent({ type: "failed", queueId, message });
+    return { success: false, queueId, message };
+  }
+
+  // Record the mantra as the real queuer does (no audio file is written)
+  const outputPath = process.env.PATH_MP3_OUTPUT || "";
+  const filename = `fake_mantra_${queueId}.mp3`;
+  const mantra = await Mantra.create({
+    title: `Fake mantra ${queueId}`,
+    visibility: "private",
+    filename,
+    filePath: outputPath,
+  });
+  await ContractUsersMantras.create({ userId, mantraId: mantra.get("id") });
+  await queue.update({ status: "done" });
+
+  const finalFilePath = path.join(outputPath, filename);
+  await sendEvent({
+    type: "completed",
+    queueId,
+    mantraId: mantra.get("id") as number,
+    finalFilePath,
+  });
+
+  return { success: true, queueId, finalFilePath };
+};
+
+// Like the real queuer, answer only once the job has finished
+app.post("/mantras/new", async (req: Request, res: Response) => {
+  const { userId, mantraArray } = req.body;
+  let queueId: number | null = null;
+
+  try {
+    const queue = await Queue.create({
+      userId,
+      status: "queued",
+      jobFilename: `fake_job_${Date.now()}.csv`,
+    });
+    queueId = queue.get("id") as number;
+
+    logger.info(
+      `Fake queuer job ${queueId} for user ${userId} (${Array.isArray(mantraArray) ? mantraArray.length : 0} elements)`,
+    );
+
+    res.status(200).json(await runJob(queue, userId));
+  } catch (error: any) {
+    logger.error(
+      `Fake queuer job ${queueId ?? "(not registered)"} for user ${userId} failed: ${error.message}`,
+    );
+    res.status(500).json({ success: false, queueId, message: error.message });
+  }
+});
+
+app.post("/mantras/cancel", async (req: Request, res: Response) => {
+  const { queueId } = req.body;
+
+  try {
+    const queue = await Queue.findByPk(queueId);
+
+    if (!queue || queue.get("status") !== "queued") {
+      res.status(200).json({
+        success: false,
+        queueId,
+        message: "Only queued jobs can be cancelled",
+      });
+      return;
+    }
+
+    cancelledQueueIds.add(queueId);
+    res.status(200).json({ success: true, queueId });
+  } catch (error: any) {
+    logger.error(
+      `Fake queuer failed to cancel job ${queueId}: ${error.message}`,
+    );
+    res.status(500).json({ success: false, queueId, message: error.message });
+  }
+});
+
+initModels();
+
+app.listen(FAKE_QUEUER_PORT, () => {
+  logger.info(
+    `Fake queuer listening on port ${FAKE_QUEUER_PORT}, sending events to ${API_URL}`,
+  );
+});